@@ -0,0 +1,116 @@
+// AnswerVoting.ts - Self-consistency voting over sampled certification answers
+
+export interface VoteCount {
+  // Display label, e.g. "B. Amazon S3" or "B + D"
+  answer: string
+  count: number
+}
+
+export interface VoteSummary {
+  // Successful samples that took part in the vote
+  samples: number
+  // Share of samples that chose the winning answer, 0 to 1
+  confidence: number
+  // Every distinct answer, most votes first
+  distribution: VoteCount[]
+}
+
+// "A", "a)", "(B)", "C.", "D:" with or without the option text after it
+const OPTION_LABEL = /^\s*\(?([A-Za-z])[).:\]]?(?:\s+|$)/
+
+/**
+ * Letter label shown for an option, falling back to its position
+ */
+const optionLetter = (option: string, index: number): string => {
+  const match = option.match(/^\s*\(?([A-Za-z])[).:\]]\s/)
+  return (match ? match[1] : String.fromCharCode(65 + index)).toUpperCase()
+}
+
+const normalizeText = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()
+
+const stripLabel = (text: string): string => text.replace(OPTION_LABEL, "")
+
+/**
+ * Index of the listed option a selection refers to, matching by letter
+ * label or by text, or -1 if it matches none
+ */
+function matchOption(selection: string, options: string[]): number {
+  const text = normalizeText(stripLabel(selection))
+  const byText = options.findIndex(option => {
+    const optionText = normalizeText(stripLabel(option))
+    return optionText !== "" && (optionText === text || (text !== "" && optionText.startsWith(text)))
+  })
+  if (byText !== -1) return byText
+
+  const label = selection.match(OPTION_LABEL)
+  if (label) {
+    const letter = label[1].toUpperCase()
+    return options.findIndex((option, index) => optionLetter(option, index) === letter)
+  }
+  return -1
+}
+
+/**
+ * Reduce one sample's answer to a key that is equal across samples which
+ * chose the same option(s), and a label to display it with. Questions
+ * without options vote on the normalized answer text.
+ */
+export function normalizeAnswer(
+  selection: { selected_options?: string[]; answer?: string },
+  options: string[] = []
+): { key: string; label: string } {
+  const selected = selection.selected_options || []
+
+  if (options.length > 0 && selected.length > 0) {
+    const indices = Array.from(new Set(selected.map(choice => matchOption(choice, options))))
+      .filter(index => index !== -1)
+      .sort((a, b) => a - b)
+
+    if (indices.length > 0) {
+      return {
+        key: indices.join("+"),
+        label: indices.length === 1
+          ? options[indices[0]]
+          : indices.map(index => optionLetter(options[index], index)).join(" + ")
+      }
+    }
+  }
+
+  const text = selected.length > 0 ? selected.join(", ") : selection.answer || ""
+  return { key: `text:${normalizeText(text)}`, label: text.trim() || "(no answer)" }
+}
+
+/**
+ * Count the answers of several samples. Returns the summary and the index
+ * of the first sample that chose the winning answer.
+ */
+export function tallyVotes(
+  samples: Array<{ selected_options?: string[]; answer?: string }>,
+  options: string[] = []
+): { summary: VoteSummary; winnerIndex: number } {
+  const votes = new Map<string, { label: string; count: number; firstIndex: number }>()
+
+  samples.forEach((sample, index) => {
+    const { key, label } = normalizeAnswer(sample, options)
+    const entry = votes.get(key)
+    if (entry) {
+      entry.count++
+    } else {
+      votes.set(key, { label, count: 1, firstIndex: index })
+    }
+  })
+
+  // Ties go to the answer seen first, i.e. the lowest temperature sample
+  const ranked = Array.from(votes.values())
+    .sort((a, b) => b.count - a.count || a.firstIndex - b.firstIndex)
+
+  return {
+    summary: {
+      samples: samples.length,
+      confidence: ranked.length > 0 ? ranked[0].count / samples.length : 0,
+      distribution: ranked.map(({ label, count }) => ({ answer: label, count }))
+    },
+    winnerIndex: ranked.length > 0 ? ranked[0].firstIndex : -1
+  }
+}
@@ -0,0 +1,478 @@
+// CodeRunner.ts
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { spawn, spawnSync } from "node:child_process"
+import { app } from "electron"
+import { configHelper } from "./ConfigHelper"
+
+/**
+ * Limits for one run of an untrusted program
+ */
+export interface RunLimits {
+  timeoutMs: number
+  memoryMb: number
+}
+
+/**
+ * Outcome of running a program on one input
+ */
+export interface RunResult {
+  stdout: string
+  stderr: string
+  // null when the process was killed or could not be started
+  exitCode: number | null
+  timedOut: boolean
+  durationMs: number
+}
+
+/**
+ * Outcome of compiling a program once and running it on each input
+ */
+export interface ProgramRun {
+  compileError?: string
+  // One per input, in order; empty if compilation failed
+  results: RunResult[]
+  // False where the platform has no sandbox and the user allowed running
+  // without one
+  networkIsolated: boolean
+}
+
+interface Toolchain {
+  // Name of the source file; Java requires it to match the public class
+  fileName: string
+  compile?: (limits: RunLimits) => string[]
+  run: (limits: RunLimits) => string[]
+  // The runtime caps its own heap. Runtimes that reserve a large address
+  // space up front fail under ulimit -v, so they are only capped this way.
+  limitsOwnMemory?: boolean
+  // The same for the compiler, which may run on a different runtime
+  compilerLimitsOwnMemory?: boolean
+  env?: (limits: RunLimits) => Record<string, string>
+}
+
+export const DEFAULT_RUN_LIMITS: RunLimits = {
+  timeoutMs: 5000,
+  memoryMb: 512
+}
+
+// Compilers run the untrusted source too (templates, constexpr), so they
+// get limits of their own
+const COMPILE_LIMITS: RunLimits = {
+  timeoutMs: 60000,
+  memoryMb: 2048
+}
+// Exit code of the sandbox's shell when the command isn't installed
+const COMMAND_NOT_FOUND = 127
+// Output past this is cut off and the program killed
+const MAX_OUTPUT_BYTES = 1024 * 1024
+
+const EXE = process.platform === "win32" ? ".exe" : ""
+
+// Where compilers are usually installed when the app is started from a
+// launcher with a minimal PATH
+const EXTRA_PATH_DIRS = process.platform === "win32"
+  ? []
+  : ["/usr/local/bin", "/opt/homebrew/bin", "/usr/local/go/bin"]
+
+// Where credentials are usually kept, relative to the home directory.
+// Programs get a temporary HOME but could still read these by full path.
+const CREDENTIAL_PATHS = [
+  ".ssh",
+  ".aws",
+  ".azure",
+  ".config/gcloud",
+  ".docker",
+  ".gnupg",
+  ".kube",
+  ".git-credentials",
+  ".netrc",
+  ".npmrc",
+  ".pypirc"
+]
+
+// Linux: new user, network, mount and PID namespaces. The PID namespace
+// gets its own /proc, so the app's files can't be reached through
+// /proc/<pid>/root either.
+const NAMESPACE_COMMAND = ["unshare", "-rnmpf", "--mount-proc"]
+
+const UNSANDBOXED_ERROR =
+  "Code can't be sandboxed on this system. To run it anyway, with network access and access to your files, turn on Run Code Without a Sandbox in Settings."
+
+// Go caches compiled packages across runs so only the first build is slow
+const GO_CACHE_DIR = path.join(os.tmpdir(), "interview-coder-go-cache")
+
+// Keyed by the values of the LanguageSelector
+const TOOLCHAINS: Record<string, Toolchain> = {
+  python: {
+    fileName: "main.py",
+    run: () => [process.platform === "win32" ? "python" : "python3", "main.py"],
+    env: () => ({ PYTHONDONTWRITEBYTECODE: "1", PYTHONIOENCODING: "utf-8" })
+  },
+  javascript: {
+    fileName: "main.js",
+    // The Electron binary runs as plain Node, so no separate install is needed
+    run: limits => [process.execPath, `--max-old-space-size=${limits.memoryMb}`, "main.js"],
+    limitsOwnMemory: true,
+    env: () => ({ ELECTRON_RUN_AS_NODE: "1" })
+  },
+  java: {
+    fileName: "Main.java",
+    compile: limits => ["javac", `-J-Xmx${limits.memoryMb}m`, "Main.java"],
+    run: limits => ["java", `-Xmx${limits.memoryMb}m`, "-cp", ".", "Main"],
+    limitsOwnMemory: true,
+    compilerLimitsOwnMemory: true
+  },
+  golang: {
+    fileName: "main.go",
+    compile: () => ["go", "build", "-o", `main${EXE}`, "main.go"],
+    run: () => [`./main${EXE}`],
+    // The Go runtime's memory limit is soft: it collects garbage harder
+    // as the program nears it. The go command is a Go program as well.
+    limitsOwnMemory: true,
+    compilerLimitsOwnMemory: true,
+    // Standard library only: never download modules or toolchains
+    env: limits => ({
+      GOCACHE: GO_CACHE_DIR,
+      GOPROXY: "off",
+      GOTOOLCHAIN: "local",
+      GOMEMLIMIT: `${limits.memoryMb}MiB`
+    })
+  },
+  cpp: {
+    fileName: "main.cpp",
+    compile: () => ["g++", "-std=c++17", "-O2", "-o", `main${EXE}`, "main.cpp"],
+    run: () => [`./main${EXE}`]
+  }
+}
+
+interface ExecuteOptions {
+  cwd: string
+  env: Record<string, string>
+  input: string
+  timeoutMs: number
+  signal?: AbortSignal
+}
+
+type Isolation = "namespaces" | "sandbox-exec" | "none"
+
+/**
+ * Quote a string as one shell word
+ */
+const shellQuote = (value: string) => `'${value.replace(/'/g, "'\\''")}'`
+
+/**
+ * Runs solutions locally to check them against test cases. Each run gets a
+ * fresh temporary directory as its home, a stripped environment, a time
+ * limit and a memory limit. Where the platform allows, it also runs with
+ * no network and without access to the app's data or the user's
+ * credentials: in namespaces on Linux and under a sandbox profile on
+ * macOS. Elsewhere code only runs if the user allowed it in the settings.
+ */
+export class CodeRunner {
+  private isolation: Isolation | null = null
+
+  public isSupported(language: string): boolean {
+    return language in TOOLCHAINS
+  }
+
+  public getSupportedLanguages(): string[] {
+    return Object.keys(TOOLCHAINS)
+  }
+
+  /**
+   * Why code can't be run, or null if it can: without a sandbox, only
+   * once the user has allowed it
+   */
+  public getRunBlocker(): string | null {
+    if (this.getIsolation() !== "none" || configHelper.loadConfig().allowUnsandboxedCode) {
+      return null
+    }
+    return UNSANDBOXED_ERROR
+  }
+
+  /**
+   * How this platform can sandbox a program, checked once
+   */
+  private getIsolation(): Isolation {
+    if (this.isolation) return this.isolation
+
+    this.isolation = "none"
+    try {
+      if (process.platform === "linux") {
+        // Unprivileged user namespaces can be disabled by the distribution
+        const [command, ...args] = this.wrap(["true"], [], "namespaces")
+        const probe = spawnSync(command, args, { timeout: 2000 })
+        if (probe.status === 0) {
+          this.isolation = "namespaces"
+        }
+      } else if (process.platform === "darwin" && fs.existsSync("/usr/bin/sandbox-exec")) {
+        this.isolation = "sandbox-exec"
+      }
+    } catch (err) {
+      console.warn("Sandboxing is not available:", err)
+    }
+
+    if (this.isolation === "none") {
+      console.warn("Code can't be sandboxed on this platform")
+    }
+    return this.isolation
+  }
+
+  /**
+   * The app's data and the user's credentials, which programs must not read
+   */
+  private getHiddenPaths(): string[] {
+    const home = os.homedir()
+    return [app.getPath("userData"), ...CREDENTIAL_PATHS.map(name => path.join(home, name))]
+      .filter(hidden => fs.existsSync(hidden))
+  }
+
+  private createEnv(workDir: string, toolchain: Toolchain, limits: RunLimits): Record<string, string> {
+    const pathDirs = [process.env.PATH || "", ...EXTRA_PATH_DIRS].filter(Boolean)
+    const env: Record<string, string> = {
+      PATH: pathDirs.join(path.delimiter),
+      HOME: workDir,
+      TMPDIR: workDir,
+      LANG: "C.UTF-8"
+    }
+    // Windows programs can't start without these
+    for (const name of ["SystemRoot", "TEMP", "TMP"]) {
+      if (process.env[name]) env[name] = process.env[name] as string
+    }
+    return { ...env, ...toolchain.env?.(limits) }
+  }
+
+  /**
+   * Wrap a command line in a shell that first runs the given commands,
+   * inside the platform's sandbox if it has one
+   */
+  private wrap(argv: string[], setup: string[], isolation: Isolation): string[] {
+    const hidden = isolation === "none" ? [] : this.getHiddenPaths()
+    let prefix: string[] = []
+    let exec = "exec"
+
+    if (isolation === "sandbox-exec") {
+      const deny = hidden.length > 0
+        ? `(deny file-read* file-write* ${hidden.map(p => `(subpath ${JSON.stringify(p)})`).join(" ")})`
+        : ""
+      prefix = ["/usr/bin/sandbox-exec", "-p", `(version 1)(allow default)(deny network*)${deny}`]
+    } else if (isolation === "namespaces") {
+      // Empty, unreadable mounts over the hidden paths. The program then
+      // runs in a user namespace of its own, without the privileges to
+      // unmount them.
+      setup = [
+        ...hidden.map(p => fs.statSync(p).isDirectory()
+          ? `mount -t tmpfs -o mode=000,size=4k tmpfs ${shellQuote(p)}`
+          : `mount --bind /dev/null ${shellQuote(p)}`),
+        ...setup
+      ]
+      prefix = NAMESPACE_COMMAND
+      exec = "exec unshare -U"
+    }
+
+    return [...prefix, "/bin/sh", "-c", [...setup, `${exec} "$0" "$@"`].join(" && "), ...argv]
+  }
+
+  /**
+   * Wrap a program's command line in the time, memory, network and file
+   * limits
+   */
+  private sandbox(argv: string[], limits: RunLimits, limitsOwnMemory?: boolean): string[] {
+    if (process.platform === "win32") return argv
+
+    // CPU time backs up the wall-clock timeout for runaway children
+    const ulimits = [`ulimit -t ${Math.ceil(limits.timeoutMs / 1000) + 1}`]
+    // macOS doesn't reliably support limiting the address space
+    if (!limitsOwnMemory && process.platform !== "darwin") {
+      ulimits.push(`ulimit -v ${limits.memoryMb * 1024}`)
+    }
+    return this.wrap(argv, ulimits, this.getIsolation())
+  }
+
+  /**
+   * Run a command to completion, killing it and everything it started
+   * once the timeout or output limit is reached
+   */
+  private execute(argv: string[], options: ExecuteOptions): Promise<RunResult> {
+    const startedAt = Date.now()
+    if (options.signal?.aborted) {
+      return Promise.resolve({
+        stdout: "",
+        stderr: "Canceled",
+        exitCode: null,
+        timedOut: false,
+        durationMs: 0
+      })
+    }
+
+    return new Promise(resolve => {
+      let stdout = ""
+      let stderr = ""
+      let outputBytes = 0
+      let timedOut = false
+      let settled = false
+
+      const finish = (exitCode: number | null, error?: string) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timer)
+        options.signal?.removeEventListener("abort", kill)
+        resolve({
+          stdout,
+          stderr: error ? `${stderr}${stderr ? "\n" : ""}${error}` : stderr,
+          exitCode,
+          timedOut,
+          durationMs: Date.now() - startedAt
+        })
+      }
+
+      const child = spawn(argv[0], argv.slice(1), {
+        cwd: options.cwd,
+        env: options.env,
+        // Own process group, so a timeout kills the program's children too
+        detached: process.platform !== "win32",
+        windowsHide: true
+      })
+
+      const kill = () => {
+        try {
+          if (!child.pid) {
+            child.kill("SIGKILL")
+          } else if (process.platform === "win32") {
+            // Windows has no process groups; taskkill /T walks the tree
+            spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], { windowsHide: true })
+              .on("error", () => child.kill("SIGKILL"))
+          } else {
+            process.kill(-child.pid, "SIGKILL")
+          }
+        } catch (err) {
+          // Already exited
+        }
+      }
+
+      const timer = setTimeout(() => {
+        timedOut = true
+        kill()
+      }, options.timeoutMs)
+      options.signal?.addEventListener("abort", kill)
+
+      const collect = (stream: "stdout" | "stderr") => (chunk: Buffer) => {
+        outputBytes += chunk.length
+        if (outputBytes > MAX_OUTPUT_BYTES) {
+          kill()
+          return
+        }
+        if (stream === "stdout") stdout += chunk.toString()
+        else stderr += chunk.toString()
+      }
+      child.stdout.on("data", collect("stdout"))
+      child.stderr.on("data", collect("stderr"))
+
+      child.on("error", (err: NodeJS.ErrnoException) => {
+        finish(
+          null,
+          err.code === "ENOENT"
+            ? `Could not start ${argv[0]}. Is it installed and on the PATH?`
+            : err.message
+        )
+      })
+      child.on("close", code => {
+        finish(code, outputBytes > MAX_OUTPUT_BYTES ? "Output limit exceeded" : undefined)
+      })
+
+      // The program may exit without reading its input
+      child.stdin.on("error", () => {})
+      child.stdin.end(options.input)
+    })
+  }
+
+  /**
+   * Compile a program if the language needs it, then run it once per
+   * input. Runs are sequential so the limits apply to one at a time, and
+   * stop early once shouldContinue returns false. Aborting the signal
+   * kills the running process and skips the remaining inputs.
+   */
+  public async runProgram(
+    language: string,
+    source: string,
+    inputs: string[],
+    limits: RunLimits = DEFAULT_RUN_LIMITS,
+    shouldContinue?: (result: RunResult, index: number) => boolean,
+    signal?: AbortSignal
+  ): Promise<ProgramRun> {
+    const toolchain = TOOLCHAINS[language]
+    if (!toolchain) {
+      throw new Error(`Running ${language} code is not supported`)
+    }
+
+    const blocker = this.getRunBlocker()
+    if (blocker) {
+      throw new Error(blocker)
+    }
+
+    const networkIsolated = this.getIsolation() !== "none"
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "interview-coder-run-"))
+    const env = this.createEnv(workDir, toolchain, limits)
+
+    try {
+      fs.writeFileSync(path.join(workDir, toolchain.fileName), source)
+
+      if (toolchain.compile) {
+        const compiler = toolchain.compile(COMPILE_LIMITS)
+        const compileCommand = this.sandbox(
+          compiler,
+          COMPILE_LIMITS,
+          toolchain.compilerLimitsOwnMemory
+        )
+        const compiled = await this.execute(compileCommand, {
+          cwd: workDir,
+          env: this.createEnv(workDir, toolchain, COMPILE_LIMITS),
+          input: "",
+          timeoutMs: COMPILE_LIMITS.timeoutMs,
+          signal
+        })
+        if (signal?.aborted) {
+          return { results: [], networkIsolated }
+        }
+        if (compiled.exitCode !== 0) {
+          return {
+            compileError: compiled.timedOut
+              ? "Compilation timed out"
+              : compiled.exitCode === COMMAND_NOT_FOUND
+                ? `Could not start ${compiler[0]}. Is it installed and on the PATH?`
+                : (compiled.stderr || compiled.stdout).trim(),
+            results: [],
+            networkIsolated
+          }
+        }
+      }
+
+      const command = this.sandbox(toolchain.run(limits), limits, toolchain.limitsOwnMemory)
+      const results: RunResult[] = []
+      for (const [index, input] of inputs.entries()) {
+        if (signal?.aborted) break
+        const result = await this.execute(command, {
+          cwd: workDir,
+          env,
+          input,
+          timeoutMs: limits.timeoutMs,
+          signal
+        })
+        if (signal?.aborted) break
+        results.push(result)
+        if (shouldContinue && !shouldContinue(result, index)) break
+      }
+      return { results, networkIsolated }
+    } finally {
+      try {
+        fs.rmSync(workDir, { recursive: true, force: true })
+      } catch (err) {
+        console.warn("Could not remove run directory:", err)
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+export const codeRunner = new CodeRunner()
@@ -0,0 +1,117 @@
+// ComplexityBenchmark.ts - Growth class of a solution from measured timings
+
+/**
+ * Time one call of the solution took at one input size
+ */
+export interface BenchmarkPoint {
+  size: number
+  durationMs: number
+}
+
+/**
+ * Measured time complexity of a solution, next to the one the model claimed
+ */
+export interface ComplexityBenchmark {
+  // Growth class that fits the timings best, e.g. "O(n log n)"; null if
+  // too few sizes could be measured
+  measured: string | null
+  // Big O taken from the claimed time complexity
+  claimed: string | null
+  // False when the measurement contradicts the claim, null when the two
+  // can't be compared
+  matchesClaim: boolean | null
+  // What the input size n counts, e.g. "length of nums"
+  sizeMeaning: string
+  points: BenchmarkPoint[]
+  // Why nothing was measured, or why measuring stopped
+  note?: string
+}
+
+interface GrowthClass {
+  label: string
+  // Normalized spellings of the class in a claimed complexity
+  aliases: string[]
+  // Unset for classes too steep to measure over doubling sizes
+  growth?: (n: number) => number
+}
+
+// Ordered from slowest to fastest growing
+const GROWTH_CLASSES: GrowthClass[] = [
+  { label: "O(1)", aliases: ["o(1)"], growth: () => 1 },
+  { label: "O(log n)", aliases: ["o(logn)"], growth: n => Math.log2(n) },
+  { label: "O(√n)", aliases: ["o(sqrt(n))", "o(sqrtn)", "o(n^0.5)", "o(n^(1/2))"], growth: n => Math.sqrt(n) },
+  { label: "O(n)", aliases: ["o(n)"], growth: n => n },
+  { label: "O(n log n)", aliases: ["o(nlogn)"], growth: n => n * Math.log2(n) },
+  { label: "O(n²)", aliases: ["o(n^2)", "o(nn)"], growth: n => n ** 2 },
+  { label: "O(n³)", aliases: ["o(n^3)", "o(nnn)"], growth: n => n ** 3 },
+  { label: "O(2ⁿ)", aliases: ["o(2^n)"] }
+]
+
+// Classes too close to tell apart from timings over practical sizes
+const INDISTINGUISHABLE: Array<[string, string]> = [
+  ["O(1)", "O(log n)"],
+  ["O(n)", "O(n log n)"]
+]
+
+// Timings below this are mostly noise
+export const MIN_MEASURABLE_MS = 1
+// Sizes with measurable timings needed to fit a class
+export const MIN_FIT_POINTS = 4
+
+const normalizeBigO = (notation: string): string =>
+  notation
+    .toLowerCase()
+    .replace(/\s+|\*|·|×/g, "")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3")
+    .replace(/ⁿ/g, "^n")
+    .replace(/√(?:\(n\)|n)/g, "sqrt(n)")
+    .replace(/log(?:_?2)?\(n\)|log(?:_?2)?n/g, "logn")
+
+/**
+ * Growth class of the Big O in a claimed complexity, e.g. "O(N log N) -
+ * sorting dominates" gives "O(n log n)". Null for anything else, such as
+ * complexities in several variables, which one size can't measure.
+ */
+export function parseComplexityClass(claimed: string | null | undefined): string | null {
+  const match = claimed?.match(/O\((?:[^()]|\([^()]*\))*\)/i)
+  if (!match) return null
+
+  const normalized = normalizeBigO(match[0])
+  return GROWTH_CLASSES.find(growthClass => growthClass.aliases.includes(normalized))?.label || null
+}
+
+/**
+ * The growth class whose curve fits the timings best. Each class is scaled
+ * to the timings in log space, and the one whose shape leaves the least
+ * spread wins.
+ */
+export function fitGrowthClass(points: BenchmarkPoint[]): string | null {
+  const measurable = points.filter(point => point.durationMs >= MIN_MEASURABLE_MS)
+  if (measurable.length < MIN_FIT_POINTS) return null
+
+  let best: { label: string; spread: number } | null = null
+  for (const { label, growth } of GROWTH_CLASSES) {
+    if (!growth) continue
+
+    const offsets = measurable.map(point =>
+      Math.log(point.durationMs) - Math.log(Math.max(growth(point.size), 1e-9))
+    )
+    const mean = offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length
+    const spread = offsets.reduce((sum, offset) => sum + (offset - mean) ** 2, 0)
+    if (!best || spread < best.spread) {
+      best = { label, spread }
+    }
+  }
+  return best?.label || null
+}
+
+/**
+ * Whether a measured class agrees with the claimed one, counting classes
+ * that timings can't tell apart as agreeing
+ */
+export function compareWithClaim(measured: string | null, claimed: string | null): boolean | null {
+  if (!measured || !claimed) return null
+  if (measured === claimed) return true
+  return INDISTINGUISHABLE.some(pair => pair.includes(measured) && pair.includes(claimed))
+}
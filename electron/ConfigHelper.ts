@@ -4,29 +4,147 @@ import path from "node:path"
 import { app } from "electron"
 import { EventEmitter } from "events"
 import { ModelProvider } from "./models/ModelFactory"
-import { createModelAdapter } from "./models/ModelFactory"
+import { createModelAdapter, getAvailableProviders, getDefaultModel } from "./models/ModelFactory"
+import { modelRegistry } from "./models/ModelRegistry"
+import { NetworkOptions } from "./models/NetworkOptions"
+import { DEFAULT_LOCAL_BASE_URL, DEFAULT_LOCAL_MODEL } from "./models/LocalAdapter"
+import { DEFAULT_AZURE_API_VERSION, describeDeployment } from "./models/AzureOpenAIAdapter"
 
 export interface ModelProviderConfig {
   apiKey: string;
+  // Model that writes solutions; may be text-only if extractionModel is set
   model: string;
+  // Vision model that reads the screenshots; empty uses `model`
+  extractionModel?: string;
+  baseUrl?: string;
+  // Azure OpenAI only: the API version, and the OpenAI model each
+  // deployment serves keyed by deployment name. `model` is a deployment.
+  apiVersion?: string;
+  deployments?: Record<string, string>;
 }
 
+/**
+ * The two stages of the pipeline: reading the problem from screenshots,
+ * then reasoning out the solution
+ */
+export type PipelineStage = "extraction" | "solution";
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Spending limits in USD for one period; null means no limit. Crossing the
+ * soft limit warns, reaching the hard limit blocks new requests.
+ */
+export interface BudgetLimit {
+  soft: number | null;
+  hard: number | null;
+}
+
+export interface BudgetLimits {
+  session: BudgetLimit;
+  daily: BudgetLimit;
+  monthly: BudgetLimit;
+}
+
+/**
+ * Record model requests to fixtures, or serve recorded fixtures offline.
+ * An empty fixtureDir uses the model-fixtures folder in user data.
+ */
+export interface ReplaySettings {
+  mode: "off" | "record" | "replay";
+  fixtureDir: string;
+}
+
+const REPLAY_MODES: ReplaySettings["mode"][] = ["off", "record", "replay"];
+
+/**
+ * Proxy, custom CA and timeout for every model request. Empty values and
+ * a null timeout use the defaults.
+ */
+export interface NetworkSettings {
+  proxyUrl: string;
+  // Comma separated hosts that skip the proxy
+  noProxy: string;
+  caBundlePath: string;
+  timeoutMs: number | null;
+}
+
+/**
+ * Model settings for one interview mode. Empty values fall back to the
+ * active provider, that provider's configured model and the defaults below.
+ */
+export interface ModeProfile {
+  provider: ModelProvider | null;
+  // Model that reads the screenshots
+  extractionModel: string;
+  // Model that writes the solution
+  solutionModel: string;
+  temperature: number | null;
+  maxTokens: number | null;
+}
+
+/**
+ * A mode profile with every fallback applied
+ */
+export interface ResolvedModeProfile {
+  provider: ModelProvider;
+  extractionModel: string;
+  solutionModel: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export const DEFAULT_TEMPERATURE = 0.2;
+export const DEFAULT_MAX_TOKENS = 4000;
+
 interface Config {
   activeProvider: ModelProvider;
+  // Providers tried in order when the active one is rate limited or down
+  fallbackProviders: ModelProvider[];
+  // Second provider asked for every solution so answers can be compared
+  compareProvider: ModelProvider | null;
   providers: {
     openai: ModelProviderConfig;
     claude: ModelProviderConfig;
+    gemini: ModelProviderConfig;
+    local: ModelProviderConfig;
+    azure: ModelProviderConfig;
   };
   language: string;
   opacity: number;
   interviewMode: string;
   launchMode: 'visible' | 'invisible';
+  // Overrides for the built-in price table, keyed by model id
+  modelPrices: Record<string, ModelPrice>;
+  budgets: BudgetLimits;
+  replay: ReplaySettings;
+  // Answers sampled per certification question for self-consistency
+  // voting; 1 asks once
+  certificationSamples: number;
+  // Generate test cases for every coding problem as soon as it is
+  // extracted, a second request beside the solution. Off, they are
+  // generated on the first test run instead.
+  generateTestCases: boolean;
+  // Run tests and benchmarks even where the platform can't sandbox them,
+  // with full network and file access
+  allowUnsandboxedCode: boolean;
+  // Model and parameter overrides keyed by interview mode
+  modeProfiles: Record<string, Partial<ModeProfile>>;
+  network: NetworkSettings;
 }
 
 export class ConfigHelper extends EventEmitter {
   private configPath: string;
   private defaultConfig: Config = {
     activeProvider: "openai",
+    fallbackProviders: [],
+    compareProvider: null,
     providers: {
       openai: {
         apiKey: "",
@@ -35,12 +153,48 @@ export class ConfigHelper extends EventEmitter {
       claude: {
         apiKey: "",
         model: "claude-3-sonnet-20240229"
+      },
+      gemini: {
+        apiKey: "",
+        model: "gemini-1.5-pro"
+      },
+      local: {
+        apiKey: "",
+        model: DEFAULT_LOCAL_MODEL,
+        baseUrl: DEFAULT_LOCAL_BASE_URL
+      },
+      azure: {
+        apiKey: "",
+        model: "gpt-4o",
+        baseUrl: "",
+        apiVersion: DEFAULT_AZURE_API_VERSION,
+        deployments: {}
       }
     },
     language: "python",
     opacity: 1.0,
     interviewMode: "coding",
-    launchMode: 'invisible'
+    launchMode: 'invisible',
+    modelPrices: {},
+    budgets: {
+      session: { soft: null, hard: null },
+      daily: { soft: null, hard: null },
+      monthly: { soft: null, hard: null }
+    },
+    replay: {
+      mode: "off",
+      fixtureDir: ""
+    },
+    certificationSamples: 1,
+    generateTestCases: false,
+    allowUnsandboxedCode: false,
+    modeProfiles: {},
+    network: {
+      proxyUrl: "",
+      noProxy: "",
+      caBundlePath: "",
+      timeoutMs: null
+    }
   };
 
   constructor() {
@@ -87,6 +241,8 @@ export class ConfigHelper extends EventEmitter {
         
         const newConfig: Config = {
           activeProvider: "openai",
+          fallbackProviders: [],
+          compareProvider: null,
           providers: {
             openai: {
               apiKey: oldConfig.apiKey || "",
@@ -95,12 +251,30 @@ export class ConfigHelper extends EventEmitter {
             claude: {
               apiKey: "",
               model: "claude-3-sonnet-20240229"
-            }
+            },
+            gemini: {
+              apiKey: "",
+              model: "gemini-1.5-pro"
+            },
+            local: {
+              apiKey: "",
+              model: DEFAULT_LOCAL_MODEL,
+              baseUrl: DEFAULT_LOCAL_BASE_URL
+            },
+            azure: this.defaultConfig.providers.azure
           },
           language: oldConfig.language || "python",
           opacity: oldConfig.opacity || 1.0,
           interviewMode: "coding",
-          launchMode: 'invisible'
+          launchMode: 'invisible',
+          modelPrices: {},
+          budgets: this.defaultConfig.budgets,
+          replay: this.defaultConfig.replay,
+          certificationSamples: 1,
+          generateTestCases: false,
+          allowUnsandboxedCode: false,
+          modeProfiles: {},
+          network: this.defaultConfig.network
         };
         
         this.saveConfig(newConfig);
@@ -141,6 +315,18 @@ export class ConfigHelper extends EventEmitter {
           providers: {
             ...this.defaultConfig.providers,
             ...config.providers
+          },
+          budgets: {
+            ...this.defaultConfig.budgets,
+            ...config.budgets
+          },
+          replay: {
+            ...this.defaultConfig.replay,
+            ...config.replay
+          },
+          network: {
+            ...this.defaultConfig.network,
+            ...config.network
           }
         };
       }
@@ -241,6 +427,146 @@ export class ConfigHelper extends EventEmitter {
     this.updateConfig({ activeProvider: provider });
   }
 
+  /**
+   * Get the ordered provider chain: the active provider followed by any
+   * configured fallbacks, skipping duplicates and providers without keys
+   */
+  public getProviderChain(): ModelProvider[] {
+    const config = this.loadConfig();
+    return [config.activeProvider, ...(config.fallbackProviders || [])]
+      .filter((provider, index, chain) => chain.indexOf(provider) === index)
+      .filter(provider => this.hasApiKey(provider));
+  }
+
+  /**
+   * Provider to compare solutions with, if one is set, differs from the
+   * active provider and has a key
+   */
+  public getCompareProvider(): ModelProvider | null {
+    const config = this.loadConfig();
+    const provider = config.compareProvider;
+    if (!provider || provider === config.activeProvider || !this.hasApiKey(provider)) {
+      return null;
+    }
+    return provider;
+  }
+
+  /**
+   * Provider, models and parameters to use for an interview mode. A
+   * profile provider without a key falls back to the active provider, and
+   * its models only apply to the provider they were chosen for.
+   */
+  public getModeProfile(mode: string): ResolvedModeProfile {
+    const config = this.loadConfig();
+    const profile = config.modeProfiles?.[mode] || {};
+    const useProfileProvider = !!profile.provider && this.hasApiKey(profile.provider);
+    const provider = useProfileProvider ? profile.provider! : config.activeProvider;
+
+    return {
+      provider,
+      extractionModel: (useProfileProvider && profile.extractionModel) || this.getStageModel(provider, "extraction"),
+      solutionModel: (useProfileProvider && profile.solutionModel) || this.getStageModel(provider, "solution"),
+      temperature: typeof profile.temperature === "number" ? profile.temperature : DEFAULT_TEMPERATURE,
+      maxTokens: typeof profile.maxTokens === "number" && profile.maxTokens > 0
+        ? profile.maxTokens
+        : DEFAULT_MAX_TOKENS
+    };
+  }
+
+  /**
+   * Model a provider uses for one pipeline stage
+   */
+  public getStageModel(provider: ModelProvider, stage: PipelineStage): string {
+    const providerConfig = this.getProviderConfig(provider);
+    const model = providerConfig?.model || getDefaultModel(provider);
+    return stage === "extraction" ? providerConfig?.extractionModel || model : model;
+  }
+
+  /**
+   * Check that the updates don't leave a text-only model reading
+   * screenshots: the extraction models of the active and fallback
+   * providers, and of the mode profiles. Only what the update touches is
+   * checked, so an older config doesn't block unrelated changes. Returns
+   * the first problem found, or null.
+   */
+  public validateExtractionModels(updates: Partial<Config>): string | null {
+    const current = this.loadConfig();
+    const config = { ...current, ...updates, providers: { ...current.providers } };
+    for (const provider of Object.keys(updates.providers || {}) as ModelProvider[]) {
+      config.providers[provider] = { ...current.providers[provider], ...updates.providers![provider] };
+    }
+
+    const touchesProvider = (provider: ModelProvider) =>
+      !!updates.providers?.[provider] ||
+      updates.activeProvider === provider ||
+      !!updates.fallbackProviders?.includes(provider);
+
+    const checks: Array<{ provider: ModelProvider; model: string; usedFor: string }> = [];
+    for (const provider of [config.activeProvider, ...(config.fallbackProviders || [])]) {
+      if (!touchesProvider(provider)) continue;
+      const providerConfig = config.providers[provider];
+      checks.push({
+        provider,
+        model: providerConfig?.extractionModel || providerConfig?.model || getDefaultModel(provider),
+        usedFor: "its extraction model"
+      });
+    }
+    for (const [mode, profile] of Object.entries(updates.modeProfiles || {})) {
+      if (profile.provider && profile.extractionModel) {
+        checks.push({
+          provider: profile.provider,
+          model: profile.extractionModel,
+          usedFor: `the ${mode} extraction model`
+        });
+      }
+    }
+
+    const providerNames = getAvailableProviders();
+    for (const { provider, model, usedFor } of checks) {
+      // Deployments take the capabilities of the model they serve
+      const info = provider === 'azure'
+        ? { name: model, ...describeDeployment(model, config.providers.azure?.deployments) }
+        : modelRegistry.getModel(provider, model);
+      if (!info.supportsVision) {
+        return `${info.name} can't read screenshots. Choose a vision model as ${usedFor} for ${providerNames[provider]?.name || provider}.`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Record/replay settings. MODEL_REPLAY_MODE and MODEL_REPLAY_DIR override
+   * the config so CI can replay fixtures without touching settings.
+   */
+  public getReplaySettings(): ReplaySettings {
+    const replay = this.loadConfig().replay;
+    const envMode = process.env.MODEL_REPLAY_MODE as ReplaySettings["mode"] | undefined;
+    const mode = envMode && REPLAY_MODES.includes(envMode) ? envMode : replay.mode;
+
+    let fixtureDir = process.env.MODEL_REPLAY_DIR || replay.fixtureDir;
+    if (!fixtureDir) {
+      try {
+        fixtureDir = path.join(app.getPath('userData'), 'model-fixtures');
+      } catch (err) {
+        fixtureDir = path.join(process.cwd(), 'model-fixtures');
+      }
+    }
+    return { mode, fixtureDir };
+  }
+
+  /**
+   * Network settings in the form the adapters take, from the saved config
+   * or the given (e.g. unsaved) settings
+   */
+  public getNetworkOptions(settings: NetworkSettings = this.loadConfig().network): NetworkOptions {
+    return {
+      proxyUrl: settings.proxyUrl?.trim() || undefined,
+      noProxy: settings.noProxy?.trim() || undefined,
+      caBundlePath: settings.caBundlePath?.trim() || undefined,
+      timeoutMs: settings.timeoutMs && settings.timeoutMs > 0 ? settings.timeoutMs : undefined
+    };
+  }
+
   /**
    * Get provider config
    */
@@ -250,13 +576,28 @@ export class ConfigHelper extends EventEmitter {
   }
 
   /**
-   * Check if the selected provider has API key configured
+   * Check if the selected provider has API key configured.
+   * Local endpoints don't need a key, only a base URL, and replayed
+   * fixtures need neither.
    */
   public hasApiKey(provider?: ModelProvider): boolean {
+    if (this.getReplaySettings().mode === "replay") {
+      return true;
+    }
+
     const config = this.loadConfig();
     const providerToCheck = provider || config.activeProvider;
     const providerConfig = config.providers[providerToCheck];
     
+    if (providerToCheck === 'local') {
+      return !!providerConfig && !!providerConfig.baseUrl && providerConfig.baseUrl.trim().length > 0;
+    }
+
+    // Azure keys belong to a resource, so its endpoint is needed too
+    if (providerToCheck === 'azure' && !providerConfig?.baseUrl?.trim()) {
+      return false;
+    }
+    
     return !!providerConfig && !!providerConfig.apiKey && providerConfig.apiKey.trim().length > 0;
   }
   
@@ -264,6 +605,9 @@ export class ConfigHelper extends EventEmitter {
    * Validate the API key format for a specific provider
    */
   public isValidApiKeyFormat(apiKey: string, provider: ModelProvider): boolean {
+    // The key is optional for local endpoints and has no fixed format
+    if (provider === 'local') return true;
+    
     if (!apiKey || apiKey.trim().length === 0) return false;
     
     switch (provider) {
@@ -273,6 +617,12 @@ export class ConfigHelper extends EventEmitter {
       case 'claude':
         // Claude API keys start with "sk-ant-" and are longer
         return /^sk-ant-[a-zA-Z0-9]{24,}$/.test(apiKey.trim());
+      case 'gemini':
+        // Google API keys start with "AIza" and are 39 chars long
+        return /^AIza[0-9A-Za-z_-]{35}$/.test(apiKey.trim());
+      case 'azure':
+        // Azure resource keys are 32 hex characters, or 84 characters for newer resources
+        return /^[a-zA-Z0-9]{32,}$/.test(apiKey.trim());
       default:
         return apiKey.trim().length > 10; // Generic validation
     }
@@ -341,18 +691,29 @@ export class ConfigHelper extends EventEmitter {
   }
   
   /**
-   * Test API key with the provider
+   * Test API key with the provider, over the saved network settings or
+   * the given ones. The endpoint and Azure API version default to the
+   * saved ones.
    */
-  public async testApiKey(apiKey: string, provider: ModelProvider): Promise<{valid: boolean, error?: string}> {
+  public async testApiKey(
+    apiKey: string,
+    provider: ModelProvider,
+    endpoint: { baseUrl?: string; apiVersion?: string } = {},
+    network?: NetworkSettings
+  ): Promise<{valid: boolean, error?: string}> {
     try {
       // Use default model for the provider
-      const model = provider === 'openai' ? 'gpt-4o' : 'claude-3-haiku-20240307';
+      const model = provider === 'claude' ? 'claude-3-haiku-20240307' : getDefaultModel(provider);
       
       // Create adapter for the specific provider
+      const providerConfig = this.getProviderConfig(provider);
       const adapter = createModelAdapter({
         provider,
         apiKey,
-        model
+        model,
+        baseUrl: endpoint.baseUrl || providerConfig?.baseUrl,
+        apiVersion: endpoint.apiVersion || providerConfig?.apiVersion,
+        network: this.getNetworkOptions(network)
       });
       
       // Test the API key
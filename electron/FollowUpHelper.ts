@@ -0,0 +1,88 @@
+// FollowUpHelper.ts
+import fs from "node:fs"
+import path from "node:path"
+import { createHash } from "node:crypto"
+import { app } from "electron"
+import { ModelMessage } from "./models/ModelInterface"
+
+/**
+ * Follow-up questions and answers about one problem
+ */
+export interface FollowUpRecord {
+  // Hash of the problem statement, so the same problem maps to one record
+  problemId: string
+  // Questions and answers, without the problem and solution they follow
+  messages: ModelMessage[]
+  updatedAt: string
+}
+
+// Threads kept, most recently used first
+const MAX_THREADS = 50
+
+export class FollowUpHelper {
+  private storePath: string
+  private records: FollowUpRecord[] | null = null
+
+  constructor() {
+    try {
+      this.storePath = path.join(app.getPath('userData'), 'follow-ups.json')
+    } catch (err) {
+      console.warn('Could not access user data path, using fallback')
+      this.storePath = path.join(process.cwd(), 'follow-ups.json')
+    }
+  }
+
+  private loadRecords(): FollowUpRecord[] {
+    if (this.records) return this.records
+
+    try {
+      if (fs.existsSync(this.storePath)) {
+        const data = JSON.parse(fs.readFileSync(this.storePath, 'utf8'))
+        this.records = Array.isArray(data) ? data : []
+      } else {
+        this.records = []
+      }
+    } catch (err) {
+      console.error("Error loading follow-up threads:", err)
+      this.records = []
+    }
+    return this.records
+  }
+
+  private saveRecords(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.storePath), { recursive: true })
+      fs.writeFileSync(this.storePath, JSON.stringify(this.loadRecords(), null, 2))
+    } catch (err) {
+      console.error("Error saving follow-up threads:", err)
+    }
+  }
+
+  private getProblemId(problem: string): string {
+    return createHash("sha256").update(problem.trim()).digest("hex").slice(0, 16)
+  }
+
+  /**
+   * Questions and answers saved for a problem, empty if there are none
+   */
+  public getMessages(problem: string): ModelMessage[] {
+    const problemId = this.getProblemId(problem)
+    return this.loadRecords().find(record => record.problemId === problemId)?.messages || []
+  }
+
+  /**
+   * Save the questions and answers about a problem, replacing earlier ones
+   */
+  public saveMessages(problem: string, messages: ModelMessage[]): void {
+    const problemId = this.getProblemId(problem)
+    const others = this.loadRecords().filter(record => record.problemId !== problemId)
+    this.records = [
+      { problemId, messages, updatedAt: new Date().toISOString() },
+      ...others
+    ].slice(0, MAX_THREADS)
+    this.saveRecords()
+  }
+}
+
+// Export a singleton instance
+export const followUpHelper = new FollowUpHelper()
@@ -0,0 +1,96 @@
+// HintsHelper.ts
+import fs from "node:fs"
+import path from "node:path"
+import { createHash } from "node:crypto"
+import { app } from "electron"
+
+/**
+ * Hints revealed for one practice problem
+ */
+export interface HintRecord {
+  // Hash of the problem statement, so the same problem maps to one record
+  problemId: string
+  // Start of the problem statement, for display
+  problem: string
+  hintsUsed: number
+  totalHints: number
+  firstSeen: string
+  updatedAt: string
+}
+
+// Length of the problem statement kept in each record
+const PROBLEM_PREVIEW_LENGTH = 200
+
+export class HintsHelper {
+  private ledgerPath: string
+  private records: HintRecord[] | null = null
+
+  constructor() {
+    try {
+      this.ledgerPath = path.join(app.getPath('userData'), 'hints.json')
+    } catch (err) {
+      console.warn('Could not access user data path, using fallback')
+      this.ledgerPath = path.join(process.cwd(), 'hints.json')
+    }
+  }
+
+  private loadRecords(): HintRecord[] {
+    if (this.records) return this.records
+
+    try {
+      if (fs.existsSync(this.ledgerPath)) {
+        const data = JSON.parse(fs.readFileSync(this.ledgerPath, 'utf8'))
+        this.records = Array.isArray(data) ? data : []
+      } else {
+        this.records = []
+      }
+    } catch (err) {
+      console.error("Error loading hints ledger:", err)
+      this.records = []
+    }
+    return this.records
+  }
+
+  private saveRecords(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.ledgerPath), { recursive: true })
+      fs.writeFileSync(this.ledgerPath, JSON.stringify(this.loadRecords(), null, 2))
+    } catch (err) {
+      console.error("Error saving hints ledger:", err)
+    }
+  }
+
+  /**
+   * Record how many hints have been revealed for a problem. Solving the
+   * same problem again keeps the highest count.
+   */
+  public recordHintsUsed(problem: string, hintsUsed: number, totalHints: number): HintRecord {
+    const statement = problem.trim()
+    const problemId = createHash("sha256").update(statement).digest("hex").slice(0, 16)
+    const now = new Date().toISOString()
+    const records = this.loadRecords()
+
+    let record = records.find(entry => entry.problemId === problemId)
+    if (record) {
+      record.hintsUsed = Math.max(record.hintsUsed, hintsUsed)
+      record.totalHints = totalHints
+      record.updatedAt = now
+    } else {
+      record = {
+        problemId,
+        problem: statement.slice(0, PROBLEM_PREVIEW_LENGTH),
+        hintsUsed,
+        totalHints,
+        firstSeen: now,
+        updatedAt: now
+      }
+      records.push(record)
+    }
+
+    this.saveRecords()
+    return record
+  }
+}
+
+// Export a singleton instance
+export const hintsHelper = new HintsHelper()
@@ -0,0 +1,203 @@
+// ModeSchemas.ts - Response schemas for each interview mode
+import { z } from "zod"
+
+// Problem details extracted from the screenshots. Fields the screenshots
+// don't mention are returned as empty strings.
+const codingProblemSchema = z.object({
+  problem_statement: z.string(),
+  constraints: z.string(),
+  example_input: z.string(),
+  example_output: z.string()
+})
+
+const systemDesignProblemSchema = z.object({
+  problem_statement: z.string(),
+  requirements: z.string(),
+  constraints: z.string(),
+  scale: z.string(),
+  additional_context: z.string()
+})
+
+const reactProblemSchema = z.object({
+  problem_statement: z.string(),
+  ui_requirements: z.string(),
+  functionality: z.string(),
+  constraints: z.string(),
+  sample_data: z.string()
+})
+
+const sqlProblemSchema = z.object({
+  problem_statement: z.string(),
+  table_schemas: z.string(),
+  sample_data: z.string(),
+  expected_output: z.string(),
+  constraints: z.string()
+})
+
+const linuxProblemSchema = z.object({
+  problem_statement: z.string(),
+  environment: z.string(),
+  command_requirements: z.string(),
+  expected_behavior: z.string(),
+  constraints: z.string()
+})
+
+const certificationQuestionSchema = z.object({
+  question_type: z.enum(["multiple_choice", "fill_in_blank", "matching", "arrange", "other"]),
+  question_text: z.string(),
+  options: z.array(z.string()).describe("Answer options as shown, empty if there are none"),
+  context: z.string()
+})
+
+// Solutions. Field order matches the order the renderer previews them in
+// while streaming.
+const codingSolutionSchema = z.object({
+  code: z.string().describe("Complete implementation, without markdown fences"),
+  thoughts: z.array(z.string()).describe("Key insights and reasoning behind the approach"),
+  time_complexity: z.string().describe("Big O notation followed by a dash and an explanation of at least 2 sentences"),
+  space_complexity: z.string().describe("Big O notation followed by a dash and an explanation of at least 2 sentences")
+})
+
+// Numbers behind a back-of-envelope estimate; the renderer derives QPS,
+// storage and bandwidth from them so they can be changed live
+const capacityEstimateSchema = z.object({
+  daily_active_users: z.number(),
+  reads_per_user_per_day: z.number(),
+  writes_per_user_per_day: z.number(),
+  write_size_bytes: z.number().describe("Average size of one stored write, with metadata"),
+  read_size_bytes: z.number().describe("Average size of one read response"),
+  peak_to_average: z.number().describe("Peak traffic as a multiple of the daily average"),
+  retention_years: z.number(),
+  replication_factor: z.number(),
+  notes: z.string().describe("Where the assumptions come from, in one or two sentences")
+})
+
+const systemDesignSolutionSchema = z.object({
+  architecture: z.string().describe("High-level architecture with key components"),
+  components: z.array(z.string()).describe("Each major component and its responsibility"),
+  data_model: z.string(),
+  scalability: z.string(),
+  tradeoffs: z.string(),
+  diagram: z.string().describe("Mermaid flowchart of the architecture, without markdown fences"),
+  capacity_estimate: capacityEstimateSchema
+})
+
+const reactSolutionSchema = z.object({
+  code: z.string().describe("Complete React implementation, without markdown fences"),
+  component_structure: z.array(z.string()),
+  state_management: z.string(),
+  key_features: z.array(z.string()),
+  potential_improvements: z.string(),
+  preview_props: z.string().describe("JSON object of props that render the default export with the sample data, {} if it takes none")
+})
+
+const sqlSolutionSchema = z.object({
+  query: z.string().describe("The SQL query, without markdown fences"),
+  explanation: z.array(z.string()).describe("Step-by-step explanation of the query"),
+  performance: z.string(),
+  alternatives: z.string()
+})
+
+const linuxSolutionSchema = z.object({
+  commands: z.string().describe("The exact commands, one per line"),
+  explanation: z.array(z.string()).describe("What each command does"),
+  verification: z.string(),
+  alternatives: z.string()
+})
+
+const certificationSolutionSchema = z.object({
+  selected_options: z.array(z.string())
+    .describe("The chosen option(s) exactly as listed, including any letter label; empty if the question has no options"),
+  answer: z.string(),
+  explanation: z.array(z.string()),
+  additional_context: z.string()
+})
+
+// A ladder of hints, each giving away more than the last, for practice
+const hintsSolutionSchema = z.object({
+  nudge: z.string().describe("A one or two sentence hint pointing at the key insight without naming the technique"),
+  approach: z.string().describe("The technique or data structure to use and why it fits, without code"),
+  pseudocode: z.string().describe("Language-agnostic pseudocode of the algorithm, without markdown fences"),
+  code: z.string().describe("Complete implementation, without markdown fences"),
+  time_complexity: z.string().describe("Big O notation followed by a dash and an explanation of at least 2 sentences"),
+  space_complexity: z.string().describe("Big O notation followed by a dash and an explanation of at least 2 sentences")
+})
+
+// A test case for a coding problem, used as input when verifying solutions
+const testCaseSchema = z.object({
+  input: z.string().describe("Standard input for the case, written in the format of the problem's example input"),
+  expected_output: z.string().describe("Exactly what a correct program prints for this input"),
+  category: z.enum(["example", "normal", "edge", "large"]),
+  description: z.string().describe("What the case checks, in a few words")
+})
+
+export const testCasesSchema = z.object({
+  test_cases: z.array(testCaseSchema)
+})
+
+// A solution wrapped in a program that runs it on one test case
+export const testHarnessSchema = z.object({
+  program: z.string().describe("Complete program that reads one test case from standard input, runs the solution on it and prints the result, without markdown fences")
+})
+
+// A solution wrapped in a program that times it on a generated input
+export const benchmarkHarnessSchema = z.object({
+  size_meaning: z.string().describe("What the input size n counts, e.g. \"length of nums\""),
+  program: z.string().describe("Complete program that reads n from standard input, builds an input of size n, times one call of the solution and prints the milliseconds it took, without markdown fences")
+})
+
+// A SQL problem's tables and sample rows as SQLite statements, and its
+// expected output as a grid
+export const sqlFixtureSchema = z.object({
+  setup_sql: z.string().describe("SQLite CREATE TABLE and INSERT statements for every table and sample row, without markdown fences"),
+  expected_columns: z.array(z.string()).describe("Column names of the expected output, empty if the problem shows none"),
+  expected_rows: z.array(z.array(z.string())).describe("Rows of the expected output in order, each value as text and NULL for missing values; empty if the problem shows none")
+})
+
+export type CodingSolution = z.infer<typeof codingSolutionSchema>
+export type SystemDesignSolution = z.infer<typeof systemDesignSolutionSchema>
+export type CapacityEstimate = z.infer<typeof capacityEstimateSchema>
+export type ReactSolution = z.infer<typeof reactSolutionSchema>
+export type SQLSolution = z.infer<typeof sqlSolutionSchema>
+export type LinuxSolution = z.infer<typeof linuxSolutionSchema>
+export type CertificationSolution = z.infer<typeof certificationSolutionSchema>
+export type HintsSolution = z.infer<typeof hintsSolutionSchema>
+export type TestCase = z.infer<typeof testCaseSchema>
+export type TestHarness = z.infer<typeof testHarnessSchema>
+export type BenchmarkHarness = z.infer<typeof benchmarkHarnessSchema>
+export type SqlFixture = z.infer<typeof sqlFixtureSchema>
+
+const PROBLEM_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  coding: codingProblemSchema,
+  system_design: systemDesignProblemSchema,
+  react: reactProblemSchema,
+  sql: sqlProblemSchema,
+  linux: linuxProblemSchema,
+  certification: certificationQuestionSchema,
+  // Practice problems are coding problems
+  hints: codingProblemSchema
+}
+
+const SOLUTION_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  coding: codingSolutionSchema,
+  system_design: systemDesignSolutionSchema,
+  react: reactSolutionSchema,
+  sql: sqlSolutionSchema,
+  linux: linuxSolutionSchema,
+  certification: certificationSolutionSchema,
+  hints: hintsSolutionSchema
+}
+
+/**
+ * Schema for the problem details extracted in the given mode
+ */
+export function getProblemSchema(mode: string): z.ZodTypeAny {
+  return PROBLEM_SCHEMAS[mode] || codingProblemSchema
+}
+
+/**
+ * Schema for the solution generated in the given mode
+ */
+export function getSolutionSchema(mode: string): z.ZodTypeAny {
+  return SOLUTION_SCHEMAS[mode] || codingSolutionSchema
+}
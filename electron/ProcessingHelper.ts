@@ -5,18 +5,188 @@ import { ScreenshotHelper } from "./ScreenshotHelper"
 import { IProcessingHelperDeps } from "./main"
 import * as axios from "axios"
 import { app, BrowserWindow } from "electron"
-import { configHelper } from "./ConfigHelper"
-import { ModelAdapter, ModelMessage, MessageContent } from "./models/ModelInterface"
-import { createModelAdapter } from "./models/ModelFactory"
+import { configHelper, PipelineStage } from "./ConfigHelper"
+import { usageHelper } from "./UsageHelper"
+import { followUpHelper } from "./FollowUpHelper"
+import { ModelAdapter, ModelMessage, MessageContent, ModelResponse, ModelStreamCallback } from "./models/ModelInterface"
+import { createModelAdapter, ModelProvider } from "./models/ModelFactory"
+import { FallbackAdapter } from "./models/FallbackAdapter"
+import { RetryAdapter } from "./models/RetryAdapter"
+import { ReplayAdapter } from "./models/ReplayAdapter"
+import { requestStructured } from "./models/StructuredOutput"
+import { tallyVotes } from "./AnswerVoting"
+import { codeRunner, RunResult } from "./CodeRunner"
+import {
+  BenchmarkPoint,
+  ComplexityBenchmark,
+  compareWithClaim,
+  fitGrowthClass,
+  parseComplexityClass
+} from "./ComplexityBenchmark"
+import {
+  compareResultGrids,
+  detectDialectWarnings,
+  sqlRunner,
+  SqlExecution,
+  SqlResultGrid
+} from "./SqlRunner"
+import {
+  getProblemSchema,
+  getSolutionSchema,
+  CodingSolution,
+  SystemDesignSolution,
+  ReactSolution,
+  SQLSolution,
+  LinuxSolution,
+  CertificationSolution,
+  HintsSolution,
+  testCasesSchema,
+  testHarnessSchema,
+  benchmarkHarnessSchema,
+  sqlFixtureSchema,
+  TestCase,
+  TestHarness,
+  BenchmarkHarness,
+  SqlFixture
+} from "./ModeSchemas"
+import {
+  AbortedError,
+  AuthenticationError,
+  InvalidResponseError,
+  QuotaExceededError,
+  RateLimitError,
+  ServerError,
+  NetworkError
+} from "./models/ModelErrors"
+
+// Upper bound on samples per certification question, to cap cost
+const MAX_CERTIFICATION_SAMPLES = 10
+
+/**
+ * One provider of a fallback chain and the model it is asked with
+ */
+interface ChainLink {
+  provider: ModelProvider
+  model: string
+}
+
+/**
+ * One visible turn of the follow-up chat
+ */
+export interface FollowUpMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+// The instructions, problem and solution that open every follow-up thread
+const FOLLOW_UP_SEED_LENGTH = 3
+
+const SOLUTION_SYSTEM_PROMPT = "You are an expert coding interview assistant. Provide clear, optimal solutions with detailed explanations."
+
+/**
+ * One test case run against the solution
+ */
+export interface TestCaseResult {
+  input: string
+  expectedOutput: string
+  actualOutput: string
+  passed: boolean
+  category: TestCase["category"]
+  description: string
+  // Why the run failed, e.g. a timeout or the error output of a crash
+  error?: string
+  durationMs: number
+}
+
+/**
+ * Result of running the solution against its test cases
+ */
+export interface TestRunSummary {
+  language: string
+  results: TestCaseResult[]
+  // Set instead of results when the program didn't compile
+  compileError?: string
+  // False if the program ran without a sandbox, as the user allowed
+  networkIsolated: boolean
+}
+
+// Error output kept per failed case
+const MAX_TEST_ERROR_LENGTH = 2000
+
+// What the test program must look like to build in each language
+const HARNESS_LANGUAGE_NOTES: Record<string, string> = {
+  java: "The public class must be named Main.",
+  golang: "Use package main and only the standard library.",
+  cpp: "Use only the standard library and C++17."
+}
+
+/**
+ * A SQL answer run against the problem's sample data
+ */
+export interface SqlQueryCheck extends SqlExecution {
+  // The problem's expected output, if it shows one
+  expected: SqlResultGrid | null
+  // Null when there is no expected output to compare with or the query failed
+  matchesExpected: boolean | null
+  dialectWarnings: string[]
+}
+
+// Input sizes the solution is timed at, doubling from 16 to about a million
+const BENCHMARK_SIZES = Array.from({ length: 17 }, (_, index) => 2 ** (index + 4))
+// Once one size takes this long the larger ones are skipped
+const BENCHMARK_TARGET_MS = 1000
+const BENCHMARK_LIMITS = { timeoutMs: 10000, memoryMb: 1024 }
+
+/**
+ * Output with the whitespace that doesn't change the answer removed, so
+ * "[1, 2]\n" matches "[1,2]"
+ */
+const normalizeOutput = (output: string): string =>
+  output
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map(line => line.trim())
+    .join("\n")
+    .trim()
+    .replace(/\s*([,:\[\]{}()])\s*/g, "$1")
+
+const describeRunFailure = (result: RunResult): string | undefined => {
+  if (result.timedOut) return "Timed out"
+  if (result.exitCode === 0) return undefined
+  const output = result.stderr.trim()
+  if (output) return output.slice(-MAX_TEST_ERROR_LENGTH)
+  return result.exitCode === null ? "Killed" : `Exited with code ${result.exitCode}`
+}
+
+/**
+ * Mermaid source of a diagram, without the ```mermaid fence models add
+ * despite being asked not to
+ */
+const extractMermaidSource = (diagram: string): string => {
+  const fenced = diagram.match(/```(?:mermaid)?[^\S\n]*\n([\s\S]*?)```/i)
+  return (fenced ? fenced[1] : diagram).trim()
+}
+
+const describeChain = (chain: ChainLink[]): string =>
+  chain.map(({ provider, model }) => `${provider}/${model}`).join(" -> ")
 
 export class ProcessingHelper {
   private deps: IProcessingHelperDeps
   private screenshotHelper: ScreenshotHelper
   private modelAdapter: ModelAdapter | null = null
+  // Second provider whose solution is shown alongside for comparison
+  private compareAdapter: ModelAdapter | null = null
+  // Chain behind modelAdapter, and adapters for stages or mode profiles
+  // that use a different chain, keyed by describeChain()
+  private defaultChainKey = ""
+  private modeAdapters = new Map<string, ModelAdapter>()
 
   // AbortControllers for API requests
   private currentProcessingAbortController: AbortController | null = null
   private currentExtraProcessingAbortController: AbortController | null = null
+  private currentFollowUpAbortController: AbortController | null = null
+  private currentTestAbortController: AbortController | null = null
+  private currentBenchmarkAbortController: AbortController | null = null
 
   constructor(deps: IProcessingHelperDeps) {
     this.deps = deps
@@ -32,21 +202,42 @@ export class ProcessingHelper {
   }
   
   /**
-   * Initialize or reinitialize the model adapter with current config
+   * Initialize or reinitialize the model adapter with current config.
+   * Each provider retries transient errors itself; when fallback providers
+   * are configured the adapters are chained so failed requests move on to
+   * the next provider. Record/replay mode wraps or replaces the chain.
    */
   private initializeModelAdapter(): void {
+    this.compareAdapter = null;
+    this.modeAdapters.clear();
     try {
       const config = configHelper.loadConfig();
       const activeProvider = config.activeProvider;
       const providerConfig = config.providers[activeProvider];
-      
-      if (providerConfig && providerConfig.apiKey) {
-        this.modelAdapter = createModelAdapter({
-          provider: activeProvider,
-          apiKey: providerConfig.apiKey,
-          model: providerConfig.model
+      const replay = configHelper.getReplaySettings();
+
+      if (replay.mode === "replay") {
+        // Recorded fixtures are served offline, so no API key is needed
+        this.modelAdapter = new ReplayAdapter({
+          mode: "replay",
+          fixtureDir: replay.fixtureDir,
+          model: providerConfig?.model
         });
-        console.log(`Model adapter initialized for ${activeProvider}`);
+        console.log(`Model adapter replaying fixtures from ${replay.fixtureDir}`);
+        this.initializeCompareAdapter();
+        return;
+      }
+      
+      if (providerConfig && configHelper.hasApiKey(activeProvider)) {
+        const chain = this.getStageChain("solution");
+        this.modelAdapter = this.createChainAdapter(chain);
+        this.defaultChainKey = describeChain(chain);
+        console.log(`Model adapter initialized for ${this.defaultChainKey}`);
+        if (replay.mode === "record") {
+          console.log(`Recording model fixtures to ${replay.fixtureDir}`);
+        }
+
+        this.initializeCompareAdapter();
       } else {
         this.modelAdapter = null;
         console.warn(`No API key available for ${activeProvider}, model adapter not initialized`);
@@ -57,6 +248,178 @@ export class ProcessingHelper {
     }
   }
 
+  /**
+   * Adapter for the provider solutions are compared with. It sees the same
+   * requests as the main chain, so it records to and replays from fixtures
+   * of its own.
+   */
+  private initializeCompareAdapter(): void {
+    const compareProvider = configHelper.getCompareProvider();
+    if (!compareProvider) return;
+
+    const replay = configHelper.getReplaySettings();
+    const fixtureDir = path.join(replay.fixtureDir, "compare");
+    if (replay.mode === "replay") {
+      this.compareAdapter = new ReplayAdapter({
+        mode: "replay",
+        fixtureDir,
+        model: configHelper.getProviderConfig(compareProvider)?.model
+      });
+    } else {
+      const adapter = this.createProviderAdapter(compareProvider);
+      this.compareAdapter = replay.mode === "record"
+        ? new ReplayAdapter({ mode: "record", fixtureDir, adapter })
+        : adapter;
+    }
+    console.log(`Comparing solutions with ${compareProvider}`);
+  }
+
+  /**
+   * The configured providers with the model each uses for a pipeline
+   * stage. `first` puts a mode profile's provider and model in front.
+   */
+  private getStageChain(stage: PipelineStage, first?: ChainLink): ChainLink[] {
+    const links = configHelper.getProviderChain()
+      .filter(provider => provider !== first?.provider)
+      .map(provider => ({ provider, model: configHelper.getStageModel(provider, stage) }));
+    return first ? [first, ...links] : links;
+  }
+
+  /**
+   * Adapter that tries each link of the chain in turn. In record mode
+   * every response is saved as a fixture.
+   */
+  private createChainAdapter(chain: ChainLink[]): ModelAdapter {
+    const adapters = chain.map(({ provider, model }) => this.createProviderAdapter(provider, model));
+
+    const adapter = adapters.length > 1
+      ? new FallbackAdapter(adapters, (failed, next) => {
+          this.sendProcessingStatus(
+            `${failed.provider} is unavailable, retrying with ${next.provider}...`
+          );
+        })
+      : adapters[0];
+
+    const replay = configHelper.getReplaySettings();
+    return replay.mode === "record"
+      ? new ReplayAdapter({ mode: "record", fixtureDir: replay.fixtureDir, adapter })
+      : adapter;
+  }
+
+  /**
+   * Adapter for one stage of a mode's pipeline: the mode profile's provider
+   * and model for that stage, followed by the fallbacks with their own
+   * models for it. Reuses the default adapter when the chain is the same.
+   */
+  private getModeAdapter(
+    defaultAdapter: ModelAdapter,
+    mode: string,
+    stage: PipelineStage
+  ): ModelAdapter {
+    // Replayed fixtures don't depend on the model
+    if (configHelper.getReplaySettings().mode === "replay") {
+      return defaultAdapter;
+    }
+
+    const profile = configHelper.getModeProfile(mode);
+    const chain = this.getStageChain(stage, {
+      provider: profile.provider,
+      model: stage === "extraction" ? profile.extractionModel : profile.solutionModel
+    });
+    const key = describeChain(chain);
+    if (key === this.defaultChainKey) {
+      return defaultAdapter;
+    }
+
+    let adapter = this.modeAdapters.get(key);
+    if (!adapter) {
+      adapter = this.createChainAdapter(chain);
+      this.modeAdapters.set(key, adapter);
+      console.log(`Using ${key} for ${mode} ${stage}`);
+    }
+    return adapter;
+  }
+
+  /**
+   * Error for an extraction adapter that can't take screenshots, e.g. a
+   * text-only model left over from an older config
+   */
+  private checkVisionSupport(adapter: ModelAdapter): string | null {
+    return adapter.supportsVision()
+      ? null
+      : `${adapter.getCurrentModel()} can't read screenshots. Choose a vision model for extraction in settings.`;
+  }
+
+  /**
+   * Adapter for one configured provider, retrying its transient errors
+   */
+  private createProviderAdapter(provider: ModelProvider, model?: string): ModelAdapter {
+    const providerConfig = configHelper.getProviderConfig(provider);
+    return new RetryAdapter(
+      createModelAdapter({
+        provider,
+        apiKey: providerConfig.apiKey,
+        model: model || providerConfig.model,
+        baseUrl: providerConfig.baseUrl,
+        apiVersion: providerConfig.apiVersion,
+        deployments: providerConfig.deployments,
+        network: configHelper.getNetworkOptions()
+      }),
+      {
+        onRetry: ({ provider, attempt, maxAttempts, delayMs, error }) => {
+          const reason = error instanceof RateLimitError ? "rate limited" : "unavailable";
+          this.sendProcessingStatus(
+            `${provider} is ${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxAttempts})...`
+          );
+        }
+      }
+    );
+  }
+
+  /**
+   * Add a completed request to the usage ledger
+   */
+  private recordUsage(
+    response: ModelResponse,
+    mode: string,
+    adapter: ModelAdapter | null = this.modelAdapter
+  ): void {
+    usageHelper.record({
+      provider: response.provider || adapter?.provider || "unknown",
+      model: response.model || adapter?.getCurrentModel() || "unknown",
+      mode,
+      usage: response.usage
+    });
+  }
+
+  private sendProcessingStatus(message: string): void {
+    const mainWindow = this.deps.getMainWindow();
+    if (mainWindow) {
+      mainWindow.webContents.send("processing-status", { message });
+    }
+  }
+
+  /**
+   * User-facing message for a typed model error, or null if the error
+   * should be reported with its own message
+   */
+  private describeModelError(error: any): string | null {
+    if (error instanceof AuthenticationError) {
+      return "Invalid API key. Please check your settings.";
+    } else if (error instanceof QuotaExceededError) {
+      return "Insufficient credits or quota. Please check your provider account.";
+    } else if (error instanceof RateLimitError) {
+      return "API rate limit exceeded. Please try again later.";
+    } else if (error instanceof ServerError) {
+      return "Server error. Please try again later.";
+    } else if (error instanceof NetworkError) {
+      return "Could not reach the model provider. Please check your connection.";
+    } else if (error instanceof InvalidResponseError) {
+      return "The model returned an unexpected response. Please try again.";
+    }
+    return null;
+  }
+
   private async waitForInitialization(
     mainWindow: BrowserWindow
   ): Promise<void> {
@@ -146,6 +509,22 @@ export class ProcessingHelper {
       }
     }
 
+    // Refuse to spend more once a hard budget limit is reached
+    const budget = usageHelper.checkBudget();
+    if (budget.level === "hard") {
+      console.warn(`Hard ${budget.period} budget reached: $${budget.spent} of $${budget.limit}`);
+      mainWindow.webContents.send(
+        this.deps.PROCESSING_EVENTS.OUT_OF_CREDITS,
+        budget
+      );
+      return;
+    } else if (budget.level === "soft") {
+      mainWindow.webContents.send(
+        this.deps.PROCESSING_EVENTS.BUDGET_WARNING,
+        budget
+      );
+    }
+
     const view = this.deps.getView()
     console.log("Processing screenshots in view:", view)
 
@@ -333,7 +712,7 @@ export class ProcessingHelper {
           content: [
             {
               type: "text",
-              text: `Extract the problem details from these screenshots. Return in JSON format. Preferred coding language is ${language}.`
+              text: `Extract the problem details from these screenshots. Preferred coding language is ${language}.`
             },
             ...imageDataList.map(data => ({
               type: "image_url" as const,
@@ -343,39 +722,49 @@ export class ProcessingHelper {
         }
       ];
 
-      // Send to vision API
-      const extractionResponse = await this.modelAdapter.vision(messages, {
-        maxTokens: 4000,
-        temperature: 0.2,
-        signal
-      });
-
-      // Parse the response to get structured problem info
-      let problemInfo;
+      // Send to vision API, validating the extracted fields for this mode
+      const extractionAdapter = this.getModeAdapter(this.modelAdapter, interviewMode, "extraction");
+      const visionError = this.checkVisionSupport(extractionAdapter);
+      if (visionError) {
+        return { success: false, error: visionError };
+      }
+      let extractionResponse;
       try {
-        const responseText = extractionResponse.content;
-        // Handle when model might wrap the JSON in markdown code blocks
-        const jsonText = responseText.replace(/```json|```/g, '').trim();
-        problemInfo = JSON.parse(jsonText);
-        
-        // Update the user on progress
-        if (mainWindow) {
-          mainWindow.webContents.send("processing-status", {
-            message: "Problem analyzed successfully. Preparing to generate solution...",
-            progress: 40
-          });
-        }
+        extractionResponse = await requestStructured(
+          extractionAdapter,
+          messages,
+          getProblemSchema(interviewMode),
+          {
+            name: "problem_info",
+            vision: true,
+            maxTokens: 4000,
+            temperature: 0.2,
+            signal
+          }
+        );
       } catch (error) {
-        console.error("Error parsing problem extraction response:", error);
-        console.log("Raw response:", extractionResponse.content);
+        if (!(error instanceof InvalidResponseError)) throw error;
+        console.error("Problem extraction response failed validation:", error.issues);
         return {
           success: false,
           error: "Failed to parse problem information. Please try again or use clearer screenshots."
         };
       }
+      this.recordUsage(extractionResponse, interviewMode, extractionAdapter);
+      const problemInfo = extractionResponse.data;
+
+      // Update the user on progress
+      if (mainWindow) {
+        mainWindow.webContents.send("processing-status", {
+          message: "Problem analyzed successfully. Preparing to generate solution...",
+          progress: 40
+        });
+      }
 
-      // Store problem info in AppState
+      // Store problem info in AppState; the previous problem's follow-up
+      // thread no longer applies
       this.deps.setProblemInfo(problemInfo);
+      this.deps.setFollowUpThread([]);
 
       // Send first success event
       if (mainWindow) {
@@ -384,6 +773,12 @@ export class ProcessingHelper {
           problemInfo
         );
 
+        // Test cases are generated beside the solution so they don't delay
+        // it; that is an extra request, so only when the user opted in
+        if (interviewMode === "coding" && configHelper.loadConfig().generateTestCases) {
+          void this.generateTestCases(problemInfo, signal);
+        }
+
         // Generate solutions after successful extraction
         const solutionsResult = await this.generateSolutionsHelper(signal, interviewMode);
         if (solutionsResult.success) {
@@ -400,6 +795,7 @@ export class ProcessingHelper {
             this.deps.PROCESSING_EVENTS.SOLUTION_SUCCESS,
             solutionsResult.data
           );
+          this.startFollowUpThread(interviewMode, problemInfo, solutionsResult.data);
           return { success: true, data: solutionsResult.data };
         } else {
           throw new Error(
@@ -411,7 +807,7 @@ export class ProcessingHelper {
       return { success: false, error: "Failed to process screenshots" };
     } catch (error: any) {
       // If the request was cancelled, don't retry
-      if (axios.isCancel(error)) {
+      if (axios.isCancel(error) || signal.aborted || error instanceof AbortedError) {
         return {
           success: false,
           error: "Processing was canceled by the user."
@@ -419,21 +815,9 @@ export class ProcessingHelper {
       }
       
       // Handle API errors
-      if (error?.response?.status === 401) {
-        return {
-          success: false,
-          error: "Invalid API key. Please check your settings."
-        };
-      } else if (error?.response?.status === 429) {
-        return {
-          success: false,
-          error: "API rate limit exceeded or insufficient credits. Please try again later."
-        };
-      } else if (error?.response?.status === 500) {
-        return {
-          success: false,
-          error: "Server error. Please try again later."
-        };
+      const modelErrorMessage = this.describeModelError(error);
+      if (modelErrorMessage) {
+        return { success: false, error: modelErrorMessage };
       }
 
       console.error("API Error Details:", error);
@@ -447,6 +831,7 @@ export class ProcessingHelper {
   private createSystemPromptByMode(mode: string): string {
     switch(mode) {
       case "coding":
+      case "hints":
         return "You are a coding challenge interpreter. Analyze the screenshot of the coding problem and extract all relevant information. Return the information in JSON format with these fields: problem_statement, constraints, example_input, example_output. Just return the structured JSON without any other text.";
       
       case "system_design":
@@ -494,51 +879,909 @@ export class ProcessingHelper {
         });
       }
 
+      const solutionAdapter = this.getModeAdapter(this.modelAdapter, mode, "solution");
+
       // Create prompt based on mode
       const promptText = this.createSolutionPromptByMode(mode, problemInfo, language);
+      const messages: ModelMessage[] = [
+        { 
+          role: "system", 
+          content: SOLUTION_SYSTEM_PROMPT
+        },
+        { 
+          role: "user", 
+          content: promptText 
+        }
+      ];
 
-      // Send to model
-      const solutionResponse = await this.modelAdapter.complete(
-        [
-          { 
-            role: "system", 
-            content: "You are an expert coding interview assistant. Provide clear, optimal solutions with detailed explanations." 
-          },
-          { 
-            role: "user", 
-            content: promptText 
+      // In compare mode the second provider gets the same prompt at the same
+      // time. It is cancelled with the main request, and also stopped if the
+      // main request fails since its answer is only shown alongside.
+      const compareController = new AbortController();
+      const abortComparison = () => compareController.abort();
+      signal.addEventListener("abort", abortComparison, { once: true });
+      // Hint ladders are revealed a step at a time, so a second full answer
+      // beside them would give it away
+      const comparisonRequest = this.compareAdapter && mode !== "hints"
+        ? this.requestSolution(this.compareAdapter, messages, mode, compareController.signal)
+            .catch((error: any) => ({
+              provider: this.compareAdapter?.provider,
+              model: this.compareAdapter?.getCurrentModel(),
+              error: this.describeModelError(error) || error.message || "Failed to generate solution"
+            }))
+        : null;
+
+      try {
+        // Stream the response so the renderer can show partial output
+        const onToken: ModelStreamCallback = (_delta, snapshot) => {
+          if (mainWindow) {
+            mainWindow.webContents.send(
+              this.deps.PROCESSING_EVENTS.SOLUTION_CHUNK,
+              snapshot
+            );
           }
-        ],
-        {
-          maxTokens: 4000,
-          temperature: 0.2,
-          signal
-        }
-      );
+        };
+        const samples = Math.min(
+          Math.max(Math.floor(configHelper.loadConfig().certificationSamples) || 1, 1),
+          MAX_CERTIFICATION_SAMPLES
+        );
+        const solution = mode === "certification" && samples > 1
+          ? await this.requestVotedSolution(solutionAdapter, messages, problemInfo.options, samples, signal, onToken)
+          : await this.requestSolution(solutionAdapter, messages, mode, signal, onToken);
 
-      const responseContent = solutionResponse.content;
-      
-      // Process the response based on the interview mode
-      return this.processSolutionResponse(responseContent, mode);
-    } catch (error: any) {
-      // Handle API errors
-      if (error?.response?.status === 401) {
+        if (comparisonRequest) {
+          this.sendProcessingStatus("Waiting for the comparison solution...");
+        }
+        const comparison = await comparisonRequest;
         return {
-          success: false,
-          error: "Invalid API key. Please check your settings."
+          success: true,
+          data: comparison ? { ...solution, comparison } : solution
         };
-      } else if (error?.response?.status === 429) {
+      } catch (error) {
+        abortComparison();
+        throw error;
+      } finally {
+        signal.removeEventListener("abort", abortComparison);
+      }
+    } catch (error: any) {
+      if (signal.aborted || error instanceof AbortedError) {
         return {
           success: false,
-          error: "API rate limit exceeded or insufficient credits. Please try again later."
+          error: "Processing was canceled by the user."
         };
       }
+
+      // Handle API errors
+      const modelErrorMessage = this.describeModelError(error);
+      if (modelErrorMessage) {
+        return { success: false, error: modelErrorMessage };
+      }
       
       console.error("Solution generation error:", error);
       return { success: false, error: error.message || "Failed to generate solution" };
     }
   }
 
+  /**
+   * Ask one adapter for a solution and map it onto the fields the renderer
+   * displays, tagged with the provider and model that answered. Temperature
+   * and max tokens come from the mode's profile unless given.
+   */
+  private async requestSolution(
+    adapter: ModelAdapter,
+    messages: ModelMessage[],
+    mode: string,
+    signal: AbortSignal,
+    onToken?: ModelStreamCallback,
+    temperature?: number
+  ) {
+    const profile = configHelper.getModeProfile(mode);
+    const response = await requestStructured(
+      adapter,
+      messages,
+      getSolutionSchema(mode),
+      {
+        name: "solution",
+        maxTokens: profile.maxTokens,
+        temperature: temperature ?? profile.temperature,
+        signal,
+        onToken
+      }
+    );
+    this.recordUsage(response, mode, adapter);
+
+    const result = this.processSolutionResponse(response.data, mode);
+    // Report which provider actually answered (may be a fallback)
+    return {
+      ...result.data,
+      provider: response.provider || adapter.provider,
+      model: response.model || adapter.getCurrentModel()
+    };
+  }
+
+  /**
+   * Self-consistency voting for certification questions: sample the answer
+   * several times at rising temperature, starting from the mode's, and keep
+   * the one most samples agree on, with the vote distribution. Only the
+   * first sample is streamed.
+   */
+  private async requestVotedSolution(
+    adapter: ModelAdapter,
+    messages: ModelMessage[],
+    options: string[] | undefined,
+    samples: number,
+    signal: AbortSignal,
+    onToken?: ModelStreamCallback
+  ) {
+    this.sendProcessingStatus(`Sampling ${samples} answers to vote on...`);
+    const baseTemperature = configHelper.getModeProfile("certification").temperature;
+    const temperatures = Array.from({ length: samples }, (_, index) =>
+      baseTemperature + ((Math.max(baseTemperature, 1) - baseTemperature) * index) / (samples - 1)
+    );
+
+    const results = await Promise.allSettled(
+      temperatures.map((temperature, index) =>
+        this.requestSolution(
+          adapter,
+          messages,
+          "certification",
+          signal,
+          index === 0 ? onToken : undefined,
+          temperature
+        )
+      )
+    );
+    if (signal.aborted) {
+      throw new AbortedError();
+    }
+
+    // Vote with the samples that succeeded; fail only if none did
+    const answers = results.flatMap(result => result.status === "fulfilled" ? [result.value] : []);
+    if (answers.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    // Certification samples carry the answer fields the vote compares
+    const { summary, winnerIndex } = tallyVotes(answers as Array<Partial<CertificationSolution>>, options);
+    console.log(`Certification vote: ${Math.round(summary.confidence * 100)}% of ${summary.samples} samples agree`);
+    return { ...answers[winnerIndex], votes: summary };
+  }
+
+  /**
+   * Opening messages of the follow-up thread: the problem as extracted and
+   * the solution as shown, without the comparison and vote details
+   */
+  private createFollowUpSeed(mode: string, problemInfo: any, solution: any): ModelMessage[] {
+    const { comparison, votes, provider, model, ...shownSolution } = solution || {};
+    return [
+      {
+        role: "system",
+        content: `You are an expert ${mode.replace("_", " ")} interview assistant. The user has the problem and the solution below and is asking follow-up questions about them, such as why an approach was chosen over another or how to change it. Answer concisely in plain text, with code only where it helps.`
+      },
+      {
+        role: "user",
+        content: `Problem:\n${JSON.stringify(problemInfo, null, 2)}`
+      },
+      {
+        role: "assistant",
+        content: `Solution:\n${JSON.stringify(shownSolution, null, 2)}`
+      }
+    ];
+  }
+
+  /**
+   * Seed the follow-up thread for a new solution, continuing the questions
+   * saved for the same problem in an earlier session
+   */
+  private startFollowUpThread(mode: string, problemInfo: any, solution: any): void {
+    const saved = problemInfo?.problem_statement
+      ? followUpHelper.getMessages(problemInfo.problem_statement)
+      : [];
+    this.deps.setFollowUpThread([...this.createFollowUpSeed(mode, problemInfo, solution), ...saved]);
+  }
+
+  /**
+   * The follow-up questions and answers so far, without the seed messages
+   */
+  public getFollowUpMessages(): FollowUpMessage[] {
+    return this.deps.getFollowUpThread()
+      .slice(FOLLOW_UP_SEED_LENGTH)
+      .map(message => ({
+        role: message.role === "user" ? "user" : "assistant",
+        content: typeof message.content === "string" ? message.content : ""
+      }));
+  }
+
+  /**
+   * Ask a follow-up question about the current solution. The answer is
+   * streamed to the renderer and both are added to the thread, which is
+   * saved with the problem so solving it again, even after a restart,
+   * picks the conversation back up.
+   */
+  public async askFollowUp(
+    question: string
+  ): Promise<{ success: boolean; data?: FollowUpMessage[]; error?: string }> {
+    const thread = this.deps.getFollowUpThread();
+    if (thread.length < FOLLOW_UP_SEED_LENGTH) {
+      return { success: false, error: "Generate a solution before asking follow-up questions." };
+    }
+    if (!this.modelAdapter) {
+      return { success: false, error: "API key not configured. Please check your settings." };
+    }
+
+    const budget = usageHelper.checkBudget();
+    if (budget.level === "hard") {
+      return { success: false, error: `The ${budget.period} budget of $${budget.limit} has been reached.` };
+    }
+
+    const mode = await this.getInterviewMode();
+    const profile = configHelper.getModeProfile(mode);
+    const adapter = this.getModeAdapter(this.modelAdapter, mode, "solution");
+    const messages: ModelMessage[] = [...thread, { role: "user", content: question }];
+    const mainWindow = this.deps.getMainWindow();
+
+    this.currentFollowUpAbortController?.abort();
+    const controller = new AbortController();
+    this.currentFollowUpAbortController = controller;
+
+    try {
+      const response = await adapter.completeStream(
+        messages,
+        (_delta, snapshot) => {
+          if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.FOLLOW_UP_CHUNK, snapshot);
+          }
+        },
+        {
+          maxTokens: profile.maxTokens,
+          temperature: profile.temperature,
+          signal: controller.signal
+        }
+      );
+      this.recordUsage(response, mode, adapter);
+
+      // A reset or new solution while waiting replaces the thread; don't
+      // append to the new one
+      if (this.deps.getFollowUpThread() !== thread) {
+        return { success: false, error: "The session was reset." };
+      }
+      const updated: ModelMessage[] = [...messages, { role: "assistant", content: response.content }];
+      this.deps.setFollowUpThread(updated);
+      const problem = this.deps.getProblemInfo()?.problem_statement;
+      if (problem) {
+        followUpHelper.saveMessages(problem, updated.slice(FOLLOW_UP_SEED_LENGTH));
+      }
+      return { success: true, data: this.getFollowUpMessages() };
+    } catch (error: any) {
+      if (controller.signal.aborted || error instanceof AbortedError) {
+        return { success: false, error: "The question was canceled." };
+      }
+      console.error("Follow-up error:", error);
+      return {
+        success: false,
+        error: this.describeModelError(error) || error.message || "Failed to answer the question"
+      };
+    } finally {
+      if (this.currentFollowUpAbortController === controller) {
+        this.currentFollowUpAbortController = null;
+      }
+    }
+  }
+
+  /**
+   * Prompt asking for the test cases of a coding problem: its examples plus
+   * normal, edge and large inputs
+   */
+  private createTestCasesPrompt(problemInfo: any): string {
+    return `Problem:
+${problemInfo.problem_statement}
+
+Constraints:
+${problemInfo.constraints || "Not specified."}
+
+Example input:
+${problemInfo.example_input || "Not specified."}
+
+Example output:
+${problemInfo.example_output || "Not specified."}
+
+List test cases to verify a solution to this problem with:
+- every example from the problem (category "example")
+- 3 to 5 typical inputs (category "normal")
+- 3 to 5 edge cases such as the smallest inputs, duplicates, negative numbers and boundary values from the constraints (category "edge")
+- 1 or 2 of the largest inputs you can write out in full, a few hundred values at most, to catch slow or overflowing solutions (category "large")
+
+Write every input in the format of the example input, so one program can read them all. Work out each expected output from the problem statement step by step. Write lists like [1, 2, 3] and booleans as true or false.`;
+  }
+
+  /**
+   * Ask the model for the test cases of a coding problem
+   */
+  private async requestTestCases(
+    adapter: ModelAdapter,
+    problemInfo: any,
+    signal: AbortSignal
+  ): Promise<TestCase[]> {
+    const response = await requestStructured(
+      adapter,
+      [
+        {
+          role: "system",
+          content: "You are an expert software tester. You write test cases with carefully worked out expected outputs."
+        },
+        { role: "user", content: this.createTestCasesPrompt(problemInfo) }
+      ],
+      testCasesSchema,
+      {
+        name: "test_cases",
+        maxTokens: configHelper.getModeProfile("coding").maxTokens,
+        temperature: 0.2,
+        signal
+      }
+    );
+    this.recordUsage(response, "coding", adapter);
+    return response.data.test_cases;
+  }
+
+  /**
+   * Attach test cases to the problem and show them, unless the problem has
+   * since been reset, replaced or had its test cases edited by the user
+   */
+  private storeTestCases(problemInfo: any, testCases: TestCase[]): any {
+    const current = this.deps.getProblemInfo();
+    // setTestCases replaces the problem object, so edits fail this check too
+    if (current !== problemInfo || current?.test_cases_edited) return null;
+
+    const updated = { ...problemInfo, test_cases: testCases };
+    this.deps.setProblemInfo(updated);
+    const mainWindow = this.deps.getMainWindow();
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.PROBLEM_EXTRACTED, updated);
+    }
+    return updated;
+  }
+
+  /**
+   * Generate the test cases of a newly extracted coding problem. Runs
+   * beside the solution request; failing only leaves the list empty, and
+   * the first test run generates them instead.
+   */
+  private async generateTestCases(problemInfo: any, signal: AbortSignal): Promise<void> {
+    if (!this.modelAdapter) return;
+
+    // Not worth an unasked-for request once spending nears a limit
+    const budget = usageHelper.checkBudget();
+    if (budget.level !== "ok") {
+      console.log(`Skipping test case generation, the ${budget.period} ${budget.level} budget has been reached`);
+      return;
+    }
+
+    try {
+      const adapter = this.getModeAdapter(this.modelAdapter, "coding", "solution");
+      const testCases = await this.requestTestCases(adapter, problemInfo, signal);
+      this.storeTestCases(problemInfo, testCases);
+    } catch (error) {
+      if (!signal.aborted && !(error instanceof AbortedError)) {
+        console.error("Test case generation failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Replace the problem's test cases with the user's edits
+   */
+  public setTestCases(testCases: TestCase[]): { success: boolean; error?: string } {
+    const problemInfo = this.deps.getProblemInfo();
+    if (!problemInfo) {
+      return { success: false, error: "No problem to add test cases to." };
+    }
+    const parsed = testCasesSchema.safeParse({ test_cases: testCases });
+    if (!parsed.success) {
+      return { success: false, error: "Invalid test cases." };
+    }
+    this.deps.setProblemInfo({
+      ...problemInfo,
+      test_cases: parsed.data.test_cases,
+      test_cases_edited: true
+    });
+    return { success: true };
+  }
+
+  /**
+   * Prompt asking the model to wrap a solution in a program that reads one
+   * test case from standard input
+   */
+  private createTestHarnessPrompt(
+    problemInfo: any,
+    code: string,
+    language: string,
+    testCases: TestCase[]
+  ): string {
+    // A few inputs show the format the program has to parse
+    const sampleInputs = testCases
+      .slice(0, 3)
+      .map((testCase, index) => `Input ${index + 1}:\n${testCase.input}`)
+      .join("\n\n");
+
+    return `Problem:
+${problemInfo.problem_statement}
+
+Solution in ${language}:
+${code}
+
+Sample test inputs:
+${sampleInputs}
+
+Wrap the solution in a complete ${language} program that reads one test case in the format of the sample inputs from standard input, runs the solution on it and prints the result to standard output. Keep the solution's code as it is. Print lists like [1, 2, 3] and booleans as true or false. ${HARNESS_LANGUAGE_NOTES[language] || ""}`;
+  }
+
+  /**
+   * Check a solution by running it locally against the problem's test
+   * cases, generating them first if there are none. The model only writes
+   * the program around the solution; the code runs in the sandbox.
+   */
+  public async runTests(
+    code: string,
+    language: string
+  ): Promise<{ success: boolean; data?: TestRunSummary; error?: string }> {
+    const problemInfo = this.deps.getProblemInfo();
+    if (!problemInfo) {
+      return { success: false, error: "No problem to test the solution against." };
+    }
+    if (!codeRunner.isSupported(language)) {
+      return {
+        success: false,
+        error: `Running ${language} solutions is not supported. Supported languages: ${codeRunner.getSupportedLanguages().join(", ")}.`
+      };
+    }
+    // Checked before asking the model for a program that couldn't run
+    const runBlocker = codeRunner.getRunBlocker();
+    if (runBlocker) {
+      return { success: false, error: runBlocker };
+    }
+    if (!this.modelAdapter) {
+      return { success: false, error: "API key not configured. Please check your settings." };
+    }
+
+    const budget = usageHelper.checkBudget();
+    if (budget.level === "hard") {
+      return { success: false, error: `The ${budget.period} budget of $${budget.limit} has been reached.` };
+    }
+
+    const mode = await this.getInterviewMode();
+    const profile = configHelper.getModeProfile(mode);
+    const adapter = this.getModeAdapter(this.modelAdapter, mode, "solution");
+
+    this.currentTestAbortController?.abort();
+    const controller = new AbortController();
+    this.currentTestAbortController = controller;
+
+    try {
+      let testCases: TestCase[] = problemInfo.test_cases || [];
+      if (testCases.length === 0) {
+        testCases = await this.requestTestCases(adapter, problemInfo, controller.signal);
+        this.storeTestCases(problemInfo, testCases);
+      }
+      if (testCases.length === 0) {
+        return { success: false, error: "There are no test cases to run." };
+      }
+
+      const response = await requestStructured(
+        adapter,
+        [
+          {
+            role: "system",
+            content: "You are an expert software tester. You write small programs that run a given solution on test cases."
+          },
+          { role: "user", content: this.createTestHarnessPrompt(problemInfo, code, language, testCases) }
+        ],
+        testHarnessSchema,
+        {
+          name: "test_harness",
+          maxTokens: profile.maxTokens,
+          temperature: 0.2,
+          signal: controller.signal
+        }
+      );
+      this.recordUsage(response, mode, adapter);
+
+      const harness: TestHarness = response.data;
+      const run = await codeRunner.runProgram(
+        language,
+        harness.program,
+        testCases.map(testCase => testCase.input),
+        undefined,
+        undefined,
+        controller.signal
+      );
+      if (controller.signal.aborted) {
+        return { success: false, error: "The test run was canceled." };
+      }
+
+      return {
+        success: true,
+        data: {
+          language,
+          compileError: run.compileError,
+          networkIsolated: run.networkIsolated,
+          results: run.results.map((result, index) => {
+            const testCase = testCases[index];
+            const error = describeRunFailure(result);
+            return {
+              input: testCase.input,
+              expectedOutput: testCase.expected_output,
+              actualOutput: result.stdout,
+              passed: !error && normalizeOutput(result.stdout) === normalizeOutput(testCase.expected_output),
+              category: testCase.category,
+              description: testCase.description,
+              error,
+              durationMs: result.durationMs
+            };
+          })
+        }
+      };
+    } catch (error: any) {
+      if (controller.signal.aborted || error instanceof AbortedError) {
+        return { success: false, error: "The test run was canceled." };
+      }
+      console.error("Test run error:", error);
+      return {
+        success: false,
+        error: this.describeModelError(error) || error.message || "Failed to run the tests"
+      };
+    } finally {
+      if (this.currentTestAbortController === controller) {
+        this.currentTestAbortController = null;
+      }
+    }
+  }
+
+  /**
+   * Prompt asking the model to wrap a solution in a program that times it
+   * on an input of a given size
+   */
+  private createBenchmarkPrompt(problemInfo: any, code: string, language: string): string {
+    return `Problem:
+${problemInfo.problem_statement}
+
+Solution in ${language}:
+${code}
+
+Write a complete ${language} program that benchmarks this solution. It reads one integer n from standard input and builds a valid input of size n for the problem: random with a fixed seed, or the worst case for this solution if that is easy to build. It then times a single call of the solution with a high-resolution clock, leaving out building the input, and prints only the elapsed time in milliseconds as a decimal number. Keep the solution's code as it is. ${HARNESS_LANGUAGE_NOTES[language] || ""}`;
+  }
+
+  /**
+   * Measure how the solution's running time grows by timing it locally at
+   * doubling input sizes, and compare the best-fitting growth class with
+   * the claimed time complexity
+   */
+  public async benchmarkComplexity(
+    code: string,
+    language: string,
+    claimedTimeComplexity: string | null
+  ): Promise<{ success: boolean; data?: ComplexityBenchmark; error?: string }> {
+    const problemInfo = this.deps.getProblemInfo();
+    if (!problemInfo) {
+      return { success: false, error: "No problem to benchmark the solution for." };
+    }
+    if (!codeRunner.isSupported(language)) {
+      return {
+        success: false,
+        error: `Running ${language} solutions is not supported. Supported languages: ${codeRunner.getSupportedLanguages().join(", ")}.`
+      };
+    }
+    // Checked before asking the model for a program that couldn't run
+    const runBlocker = codeRunner.getRunBlocker();
+    if (runBlocker) {
+      return { success: false, error: runBlocker };
+    }
+    if (!this.modelAdapter) {
+      return { success: false, error: "API key not configured. Please check your settings." };
+    }
+
+    const budget = usageHelper.checkBudget();
+    if (budget.level === "hard") {
+      return { success: false, error: `The ${budget.period} budget of $${budget.limit} has been reached.` };
+    }
+
+    const mode = await this.getInterviewMode();
+    const profile = configHelper.getModeProfile(mode);
+    const adapter = this.getModeAdapter(this.modelAdapter, mode, "solution");
+
+    this.currentBenchmarkAbortController?.abort();
+    const controller = new AbortController();
+    this.currentBenchmarkAbortController = controller;
+
+    try {
+      const response = await requestStructured(
+        adapter,
+        [
+          {
+            role: "system",
+            content: "You are an expert in performance testing. You write small, accurate benchmarks."
+          },
+          { role: "user", content: this.createBenchmarkPrompt(problemInfo, code, language) }
+        ],
+        benchmarkHarnessSchema,
+        {
+          name: "benchmark",
+          maxTokens: profile.maxTokens,
+          temperature: 0.2,
+          signal: controller.signal
+        }
+      );
+      this.recordUsage(response, mode, adapter);
+
+      const harness: BenchmarkHarness = response.data;
+      const points: BenchmarkPoint[] = [];
+      let note: string | undefined;
+      const run = await codeRunner.runProgram(
+        language,
+        harness.program,
+        BENCHMARK_SIZES.map(String),
+        BENCHMARK_LIMITS,
+        (result, index) => {
+          const size = BENCHMARK_SIZES[index];
+          const failure = describeRunFailure(result);
+          // The last line is the timing; anything before it is the
+          // solution's own output
+          const durationMs = parseFloat(result.stdout.trim().split("\n").pop() || "");
+          if (failure || !Number.isFinite(durationMs)) {
+            note = `Stopped at n = ${size}: ${failure || "the benchmark printed no timing"}`;
+            return false;
+          }
+          points.push({ size, durationMs });
+          return durationMs < BENCHMARK_TARGET_MS;
+        },
+        controller.signal
+      );
+      if (controller.signal.aborted) {
+        return { success: false, error: "The benchmark was canceled." };
+      }
+      if (run.compileError) {
+        return { success: false, error: `The benchmark didn't compile:\n${run.compileError}` };
+      }
+
+      const measured = fitGrowthClass(points);
+      const claimed = parseComplexityClass(claimedTimeComplexity);
+      if (!measured && !note) {
+        const largest = points[points.length - 1]?.size;
+        note = `Too fast to measure${largest ? ` up to n = ${largest}` : ""}`;
+      }
+      return {
+        success: true,
+        data: {
+          measured,
+          claimed,
+          matchesClaim: compareWithClaim(measured, claimed),
+          sizeMeaning: harness.size_meaning,
+          points,
+          note
+        }
+      };
+    } catch (error: any) {
+      if (controller.signal.aborted || error instanceof AbortedError) {
+        return { success: false, error: "The benchmark was canceled." };
+      }
+      console.error("Benchmark error:", error);
+      return {
+        success: false,
+        error: this.describeModelError(error) || error.message || "Failed to benchmark the solution"
+      };
+    } finally {
+      if (this.currentBenchmarkAbortController === controller) {
+        this.currentBenchmarkAbortController = null;
+      }
+    }
+  }
+
+  /**
+   * Prompt asking for a SQL problem's tables and sample rows as SQLite
+   * statements and its expected output as a grid
+   */
+  private createSqlFixturePrompt(problemInfo: any): string {
+    return `Problem:
+${problemInfo.problem_statement}
+
+Table schemas:
+${problemInfo.table_schemas || "Not specified."}
+
+Sample data:
+${problemInfo.sample_data || "Not specified."}
+
+Expected output:
+${problemInfo.expected_output || "Not specified."}
+
+Write SQLite statements that create these tables and insert exactly the sample rows, with column types SQLite understands. Then give the expected output as column names and rows of text values, exactly as shown in the problem. If the problem shows no sample data, make up a few representative rows; if it shows no expected output, leave the expected columns and rows empty.`;
+  }
+
+  /**
+   * Check a SQL answer by running it on the problem's sample data in an
+   * in-memory SQLite database and comparing the rows with the expected
+   * output. The tables are built once per problem from a model request.
+   */
+  public async runSqlQuery(
+    query: string
+  ): Promise<{ success: boolean; data?: SqlQueryCheck; error?: string }> {
+    let problemInfo = this.deps.getProblemInfo();
+    if (!problemInfo) {
+      return { success: false, error: "No problem to run the query against." };
+    }
+
+    const controller = new AbortController();
+    try {
+      let fixture: SqlFixture | undefined = problemInfo.sql_fixture;
+      if (!fixture) {
+        if (!this.modelAdapter) {
+          return { success: false, error: "API key not configured. Please check your settings." };
+        }
+        const budget = usageHelper.checkBudget();
+        if (budget.level === "hard") {
+          return { success: false, error: `The ${budget.period} budget of $${budget.limit} has been reached.` };
+        }
+
+        // A SQL check is SQL mode's test run, canceled the same way
+        this.currentTestAbortController?.abort();
+        this.currentTestAbortController = controller;
+
+        const adapter = this.getModeAdapter(this.modelAdapter, "sql", "solution");
+        const response = await requestStructured(
+          adapter,
+          [
+            {
+              role: "system",
+              content: "You are an expert SQL test engineer. You turn problem descriptions into exact test fixtures."
+            },
+            { role: "user", content: this.createSqlFixturePrompt(problemInfo) }
+          ],
+          sqlFixtureSchema,
+          {
+            name: "sql_fixture",
+            maxTokens: configHelper.getModeProfile("sql").maxTokens,
+            temperature: 0.2,
+            signal: controller.signal
+          }
+        );
+        this.recordUsage(response, "sql", adapter);
+        fixture = response.data as SqlFixture;
+
+        // Keep the fixture with the problem so reruns skip the request
+        if (this.deps.getProblemInfo() === problemInfo) {
+          problemInfo = { ...problemInfo, sql_fixture: fixture };
+          this.deps.setProblemInfo(problemInfo);
+        }
+      }
+
+      const execution = await sqlRunner.execute(fixture.setup_sql, query);
+      const expected = fixture.expected_columns.length > 0 || fixture.expected_rows.length > 0
+        ? { columns: fixture.expected_columns, rows: fixture.expected_rows }
+        : null;
+      const failed = !!(execution.error || execution.setupError);
+
+      return {
+        success: true,
+        data: {
+          ...execution,
+          expected,
+          matchesExpected: expected && !failed
+            ? compareResultGrids(execution, expected, /\border\s+by\b/i.test(query))
+            : null,
+          dialectWarnings: detectDialectWarnings(query)
+        }
+      };
+    } catch (error: any) {
+      if (controller.signal.aborted || error instanceof AbortedError) {
+        return { success: false, error: "The query check was canceled." };
+      }
+      console.error("SQL check error:", error);
+      return {
+        success: false,
+        error: this.describeModelError(error) || error.message || "Failed to run the query"
+      };
+    } finally {
+      if (this.currentTestAbortController === controller) {
+        this.currentTestAbortController = null;
+      }
+    }
+  }
+
+  /**
+   * Report of the failed test cases, asking the model to correct its code
+   */
+  private createFixPrompt(summary: TestRunSummary): string {
+    const report = summary.compileError
+      ? `The program didn't compile:\n${summary.compileError}`
+      : summary.results
+          .filter(result => !result.passed)
+          .map((result, index) => [
+            `Failed test ${index + 1} (${result.category}: ${result.description}):`,
+            `Input:\n${result.input}`,
+            `Expected output:\n${result.expectedOutput}`,
+            `Actual output:\n${result.actualOutput || "(none)"}`,
+            result.error ? `Error:\n${result.error}` : ""
+          ].filter(Boolean).join("\n"))
+          .join("\n\n");
+
+    return `I ran your solution locally and it failed.
+
+${report}
+
+Fix the solution so these cases pass. A generated expected output can itself be wrong; if you are sure your solution was right for a case, keep its behaviour and say so in your thoughts. Return the complete corrected solution in the same format as before.`;
+  }
+
+  /**
+   * Ask for a corrected solution given the failures of a test run. The new
+   * solution replaces the current one as if it had been generated anew.
+   */
+  public async fixSolution(
+    code: string,
+    summary: TestRunSummary
+  ): Promise<{ success: boolean; error?: string }> {
+    const problemInfo = this.deps.getProblemInfo();
+    const mainWindow = this.deps.getMainWindow();
+    if (!problemInfo || !mainWindow) {
+      return { success: false, error: "No problem to fix the solution for." };
+    }
+    if (!summary.compileError && summary.results.every(result => result.passed)) {
+      return { success: false, error: "All tests passed, so there is nothing to fix." };
+    }
+    if (!this.modelAdapter) {
+      return { success: false, error: "API key not configured. Please check your settings." };
+    }
+
+    const budget = usageHelper.checkBudget();
+    if (budget.level === "hard") {
+      return { success: false, error: `The ${budget.period} budget of $${budget.limit} has been reached.` };
+    }
+
+    const mode = await this.getInterviewMode();
+    const adapter = this.getModeAdapter(this.modelAdapter, mode, "solution");
+    const messages: ModelMessage[] = [
+      { role: "system", content: SOLUTION_SYSTEM_PROMPT },
+      { role: "user", content: this.createSolutionPromptByMode(mode, problemInfo, summary.language) },
+      { role: "assistant", content: code },
+      { role: "user", content: this.createFixPrompt(summary) }
+    ];
+
+    this.currentProcessingAbortController?.abort();
+    const controller = new AbortController();
+    this.currentProcessingAbortController = controller;
+    mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.INITIAL_START);
+
+    try {
+      const solution = await this.requestSolution(
+        adapter,
+        messages,
+        mode,
+        controller.signal,
+        (_delta, snapshot) => {
+          if (!mainWindow.isDestroyed()) {
+            mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.SOLUTION_CHUNK, snapshot);
+          }
+        }
+      );
+
+      mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.SOLUTION_SUCCESS, solution);
+      this.startFollowUpThread(mode, problemInfo, solution);
+      return { success: true };
+    } catch (error: any) {
+      // A reset cancels the request and clears the view itself
+      if (controller.signal.aborted || error instanceof AbortedError) {
+        return { success: false, error: "Processing was canceled by the user." };
+      }
+      console.error("Fix solution error:", error);
+      const message = this.describeModelError(error) || error.message || "Failed to fix the solution";
+      if (!mainWindow.isDestroyed()) {
+        mainWindow.webContents.send(this.deps.PROCESSING_EVENTS.INITIAL_SOLUTION_ERROR, message);
+      }
+      return { success: false, error: message };
+    } finally {
+      if (this.currentProcessingAbortController === controller) {
+        this.currentProcessingAbortController = null;
+      }
+    }
+  }
+
   private createSolutionPromptByMode(mode: string, problemInfo: any, language: string): string {
     switch(mode) {
       case "coding":
@@ -595,6 +1838,8 @@ I need the response in the following format:
 3. Data Model: Describe the data schemas and storage choices
 4. Scalability Considerations: How this design scales to handle growth
 5. Tradeoffs: List of the key tradeoffs in your design
+6. Diagram: A Mermaid flowchart (starting with "flowchart LR") of the architecture, with a node for each key component and labelled edges for the main requests and data flows. Quote labels that contain punctuation, e.g. A["API Gateway (REST)"].
+7. Capacity Estimate: The assumptions for a back-of-envelope estimate as plain numbers: daily active users, reads and writes per user per day, average write and read sizes in bytes, peak-to-average traffic ratio, retention in years and replication factor. Base them on the stated scale, and make reasonable interview assumptions where it is silent.
 
 Your solution should be clear, efficient, and address all the requirements and constraints.
 `;
@@ -619,11 +1864,12 @@ SAMPLE DATA:
 ${problemInfo.sample_data || "No sample data provided."}
 
 I need the response in the following format:
-1. Code: A clean, optimized React implementation
+1. Code: A clean, optimized React implementation in a single file whose default export is the root component, importing only from react
 2. Component Structure: Description of the component hierarchy
 3. State Management: How state is handled in the solution
 4. Key Features: Highlight of important implementation details
 5. Potential Improvements: How the solution could be extended
+6. Preview Props: A JSON object of props that renders the default export with the sample data, or {} if it takes none
 
 Your solution should use modern React practices, be performant, and meet all requirements.
 `;
@@ -682,6 +1928,33 @@ I need the response in the following format:
 4. Alternative Approaches: Other ways to solve this problem
 
 Your solution should be efficient, follow best practices, and meet all requirements.
+`;
+
+      case "hints":
+        return `
+Create a ladder of hints for someone practicing the following coding problem. Each step should reveal more than the last, so they can stop as soon as they are unstuck:
+
+PROBLEM STATEMENT:
+${problemInfo.problem_statement}
+
+CONSTRAINTS:
+${problemInfo.constraints || "No specific constraints provided."}
+
+EXAMPLE INPUT:
+${problemInfo.example_input || "No example input provided."}
+
+EXAMPLE OUTPUT:
+${problemInfo.example_output || "No example output provided."}
+
+LANGUAGE: ${language}
+
+I need the response in the following format:
+1. Nudge: A gentle hint towards the key insight that doesn't name the technique
+2. Approach: The technique or data structure to use and why, without code
+3. Pseudocode: The algorithm step by step in pseudocode
+4. Code: A clean, optimized implementation in ${language}
+5. Time complexity: O(X) with a detailed explanation (at least 2 sentences)
+6. Space complexity: O(X) with a detailed explanation (at least 2 sentences)
 `;
 
       case "certification":
@@ -695,7 +1968,7 @@ QUESTION TEXT:
 ${problemInfo.question_text}
 
 OPTIONS:
-${problemInfo.options || "No options provided."}
+${problemInfo.options?.length ? problemInfo.options.join("\n") : "No options provided."}
 
 CONTEXT:
 ${problemInfo.context || "No specific context provided."}
@@ -720,320 +1993,132 @@ I need a comprehensive solution with clear explanations.
     }
   }
 
-  private processSolutionResponse(responseContent: string, mode: string) {
+  private processSolutionResponse(solution: any, mode: string) {
     switch(mode) {
       case "coding":
-        return this.processCodingSolution(responseContent);
+        return this.processCodingSolution(solution);
       case "system_design":
-        return this.processSystemDesignSolution(responseContent);
+        return this.processSystemDesignSolution(solution);
       case "react":
-        return this.processReactSolution(responseContent);
+        return this.processReactSolution(solution);
       case "sql":
-        return this.processSQLSolution(responseContent);
+        return this.processSQLSolution(solution);
       case "linux":
-        return this.processLinuxSolution(responseContent);
+        return this.processLinuxSolution(solution);
       case "certification":
-        return this.processCertificationSolution(responseContent);
+        return this.processCertificationSolution(solution);
+      case "hints":
+        return this.processHintsSolution(solution);
       default:
-        return this.processCodingSolution(responseContent);
+        return this.processCodingSolution(solution);
     }
   }
 
-  private processCodingSolution(responseContent: string) {
-    // Extract parts from the response
-    const codeMatch = responseContent.match(/```(?:\w+)?\s*([\s\S]*?)```/);
-    const code = codeMatch ? codeMatch[1].trim() : responseContent;
-    
-    // Extract thoughts, looking for bullet points or numbered lists
-    const thoughtsRegex = /(?:Thoughts:|Key Insights:|Reasoning:|Approach:)([\s\S]*?)(?:Time complexity:|$)/i;
-    const thoughtsMatch = responseContent.match(thoughtsRegex);
-    let thoughts: string[] = [];
-    
-    if (thoughtsMatch && thoughtsMatch[1]) {
-      // Extract bullet points or numbered items
-      const bulletPoints = thoughtsMatch[1].match(/(?:^|\n)\s*(?:[-*•]|\d+\.)\s*(.*)/g);
-      if (bulletPoints) {
-        thoughts = bulletPoints.map(point => 
-          point.replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').trim()
-        ).filter(Boolean);
-      } else {
-        // If no bullet points found, split by newlines and filter empty lines
-        thoughts = thoughtsMatch[1].split('\n')
-          .map(line => line.trim())
-          .filter(Boolean);
-      }
-    }
-    
-    // Extract complexity information
-    // Use more flexible patterns to find complexity sections
-    const timeComplexityPattern = /Time complexity:?\s*([^\n]+(?:\n[^\n]+)*?)(?=\n\s*(?:Space complexity|$))/i;
-    const spaceComplexityPattern = /Space complexity:?\s*([^\n]+(?:\n[^\n]+)*?)(?=\n\s*(?:[A-Z]|$))/i;
-    
-    let timeComplexity = "O(n) - Linear time complexity because we only iterate through the array once. Each element is processed exactly one time, and the hashmap lookups are O(1) operations.";
-    let spaceComplexity = "O(n) - Linear space complexity because we store elements in the hashmap. In the worst case, we might need to store all elements before finding the solution pair.";
-    
-    // Extract time complexity with better matching
-    const timeMatch = responseContent.match(timeComplexityPattern);
-    if (timeMatch && timeMatch[1]) {
-      timeComplexity = timeMatch[1].trim();
-      // Ensure the response includes actual Big O notation and a dash
-      if (!timeComplexity.match(/O\([^)]+\)/i)) {
-        timeComplexity = `O(n) - ${timeComplexity}`;
-      } else if (!timeComplexity.includes('-') && !timeComplexity.includes('because')) {
-        // Add a dash if there isn't one and no 'because'
-        const notationMatch = timeComplexity.match(/O\([^)]+\)/i);
-        if (notationMatch) {
-          const notation = notationMatch[0];
-          const rest = timeComplexity.replace(notation, '').trim();
-          timeComplexity = `${notation} - ${rest}`;
-        }
-      }
-    }
-    
-    // Extract space complexity with better matching
-    const spaceMatch = responseContent.match(spaceComplexityPattern);
-    if (spaceMatch && spaceMatch[1]) {
-      spaceComplexity = spaceMatch[1].trim();
-      // Ensure the response includes actual Big O notation and a dash
-      if (!spaceComplexity.match(/O\([^)]+\)/i)) {
-        spaceComplexity = `O(n) - ${spaceComplexity}`;
-      } else if (!spaceComplexity.includes('-') && !spaceComplexity.includes('because')) {
-        // Add a dash if there isn't one and no 'because'
-        const notationMatch = spaceComplexity.match(/O\([^)]+\)/i);
-        if (notationMatch) {
-          const notation = notationMatch[0];
-          const rest = spaceComplexity.replace(notation, '').trim();
-          spaceComplexity = `${notation} - ${rest}`;
-        }
-      }
-    }
+  private processCodingSolution(solution: CodingSolution) {
+    const formattedResponse = {
+      code: solution.code,
+      thoughts: solution.thoughts.length > 0 ? solution.thoughts : ["Solution approach based on efficiency and readability"],
+      time_complexity: solution.time_complexity,
+      space_complexity: solution.space_complexity
+    };
 
-    // Construct the formatted response
+    return { success: true, data: formattedResponse };
+  }
+
+  /**
+   * The full solution plus the ladder the renderer reveals one step at a
+   * time, ending with the code
+   */
+  private processHintsSolution(solution: HintsSolution) {
     const formattedResponse = {
-      code: code,
-      thoughts: thoughts.length > 0 ? thoughts : ["Solution approach based on efficiency and readability"],
-      time_complexity: timeComplexity,
-      space_complexity: spaceComplexity
+      code: solution.code,
+      thoughts: [solution.approach],
+      time_complexity: solution.time_complexity,
+      space_complexity: solution.space_complexity,
+      hints: [
+        { level: "Nudge", content: solution.nudge },
+        { level: "Approach", content: solution.approach },
+        { level: "Pseudocode", content: solution.pseudocode },
+        { level: "Full Code", content: solution.code }
+      ]
     };
 
     return { success: true, data: formattedResponse };
   }
 
-  private processSystemDesignSolution(responseContent: string) {
-    // Extract the architecture section
-    const architectureMatch = responseContent.match(/(?:System Architecture|Architecture|High-level design):([\s\S]*?)(?:(?:Key|Major) Components:|$)/i);
-    const architecture = architectureMatch ? architectureMatch[1].trim() : "";
-    
-    // Extract components
-    const componentsMatch = responseContent.match(/(?:Key|Major) Components:([\s\S]*?)(?:Data Model:|$)/i);
-    let components: string[] = [];
-    
-    if (componentsMatch && componentsMatch[1]) {
-      // Extract bullet points
-      const bulletPoints = componentsMatch[1].match(/(?:^|\n)\s*(?:[-*•]|\d+\.)\s*(.*)/g);
-      if (bulletPoints) {
-        components = bulletPoints.map(point => 
-          point.replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').trim()
-        ).filter(Boolean);
-      } else {
-        components = componentsMatch[1].split('\n')
-          .map(line => line.trim())
-          .filter(Boolean);
-      }
-    }
-    
-    // Extract data model
-    const dataModelMatch = responseContent.match(/Data Model:([\s\S]*?)(?:Scalability|$)/i);
-    const dataModel = dataModelMatch ? dataModelMatch[1].trim() : "";
-    
-    // Extract scalability
-    const scalabilityMatch = responseContent.match(/Scalability[^:]*:([\s\S]*?)(?:Tradeoffs|$)/i);
-    const scalability = scalabilityMatch ? scalabilityMatch[1].trim() : "";
-    
-    // Extract tradeoffs
-    const tradeoffsMatch = responseContent.match(/Tradeoffs[^:]*:([\s\S]*?)$/i);
-    const tradeoffs = tradeoffsMatch ? tradeoffsMatch[1].trim() : "";
-    
-    // Construct the formatted response
+  private processSystemDesignSolution(solution: SystemDesignSolution) {
     const formattedResponse = {
       code: "", // Empty for system design
-      diagram: architecture, // Use architecture as diagram
-      thoughts: components.length > 0 ? components : ["System design approach based on requirements"],
+      diagram: extractMermaidSource(solution.diagram),
+      thoughts: solution.components.length > 0 ? solution.components : ["System design approach based on requirements"],
       time_complexity: "N/A for system design",
       space_complexity: "N/A for system design",
       // Additional system design specific fields
-      architecture: architecture,
-      data_model: dataModel,
-      scalability: scalability,
-      tradeoffs: tradeoffs
+      architecture: solution.architecture,
+      data_model: solution.data_model,
+      scalability: solution.scalability,
+      tradeoffs: solution.tradeoffs,
+      capacity_estimate: solution.capacity_estimate
     };
 
     return { success: true, data: formattedResponse };
   }
 
-  private processReactSolution(responseContent: string) {
-    // Extract code with React components
-    const codeMatch = responseContent.match(/```(?:jsx|tsx|javascript|js|react)?\s*([\s\S]*?)```/);
-    const code = codeMatch ? codeMatch[1].trim() : "";
-    
-    // Extract component structure
-    const structureMatch = responseContent.match(/Component Structure:([\s\S]*?)(?:State Management:|$)/i);
-    let structure: string[] = [];
-    
-    if (structureMatch && structureMatch[1]) {
-      const bulletPoints = structureMatch[1].match(/(?:^|\n)\s*(?:[-*•]|\d+\.)\s*(.*)/g);
-      if (bulletPoints) {
-        structure = bulletPoints.map(point => 
-          point.replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').trim()
-        ).filter(Boolean);
-      } else {
-        structure = structureMatch[1].split('\n')
-          .map(line => line.trim())
-          .filter(Boolean);
-      }
-    }
-    
-    // Extract state management
-    const stateMatch = responseContent.match(/State Management:([\s\S]*?)(?:Key Features:|$)/i);
-    const stateManagement = stateMatch ? stateMatch[1].trim() : "";
-    
-    // Extract key features
-    const featuresMatch = responseContent.match(/Key Features:([\s\S]*?)(?:Potential Improvements:|$)/i);
-    let features: string[] = [];
-    
-    if (featuresMatch && featuresMatch[1]) {
-      const bulletPoints = featuresMatch[1].match(/(?:^|\n)\s*(?:[-*•]|\d+\.)\s*(.*)/g);
-      if (bulletPoints) {
-        features = bulletPoints.map(point => 
-          point.replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').trim()
-        ).filter(Boolean);
-      } else {
-        features = featuresMatch[1].split('\n')
-          .map(line => line.trim())
-          .filter(Boolean);
-      }
-    }
-    
-    // Construct the formatted response
+  private processReactSolution(solution: ReactSolution) {
+    const structure = solution.component_structure;
+    const features = solution.key_features;
+
     const formattedResponse = {
-      code: code,
+      code: solution.code,
       thoughts: structure.length > 0 ? structure : features.length > 0 ? features : ["React component design based on requirements"],
       time_complexity: "N/A for React components",
       space_complexity: "N/A for React components",
       // Additional React specific fields
       component_structure: structure.join("\n"),
-      state_management: stateManagement
+      state_management: solution.state_management,
+      preview_props: solution.preview_props
     };
 
     return { success: true, data: formattedResponse };
   }
 
-  private processSQLSolution(responseContent: string) {
-    // Extract SQL query
-    const sqlMatch = responseContent.match(/```(?:sql)?\s*([\s\S]*?)```/);
-    const sql = sqlMatch ? sqlMatch[1].trim() : "";
-    
-    // Extract explanation
-    const explanationMatch = responseContent.match(/Explanation:([\s\S]*?)(?:Performance|$)/i);
-    let explanation: string[] = [];
-    
-    if (explanationMatch && explanationMatch[1]) {
-      const paragraphs = explanationMatch[1].split('\n\n').filter(Boolean);
-      explanation = paragraphs.map(p => p.trim());
-    }
-    
-    // Extract performance considerations
-    const performanceMatch = responseContent.match(/Performance[^:]*:([\s\S]*?)(?:Alternative|$)/i);
-    const performance = performanceMatch ? performanceMatch[1].trim() : "";
-    
-    // Extract alternative approaches
-    const alternativesMatch = responseContent.match(/Alternative[^:]*:([\s\S]*?)$/i);
-    const alternatives = alternativesMatch ? alternativesMatch[1].trim() : "";
-    
-    // Construct the formatted response
+  private processSQLSolution(solution: SQLSolution) {
     const formattedResponse = {
-      code: sql,
-      thoughts: explanation.length > 0 ? explanation : ["SQL query design based on requirements"],
-      time_complexity: performance || "Depends on database indexes and query execution plan",
+      code: solution.query,
+      thoughts: solution.explanation.length > 0 ? solution.explanation : ["SQL query design based on requirements"],
+      time_complexity: solution.performance || "Depends on database indexes and query execution plan",
       space_complexity: "Depends on result set size and temporary tables used",
       // Additional SQL specific fields
-      alternatives: alternatives
+      alternatives: solution.alternatives
     };
 
     return { success: true, data: formattedResponse };
   }
 
-  private processLinuxSolution(responseContent: string) {
-    // Extract solution commands
-    const commandsMatch = responseContent.match(/(?:Solution Commands|Commands|Command):([\s\S]*?)(?:Explanation:|$)/i);
-    const commands = commandsMatch ? commandsMatch[1].trim() : "";
-    
-    // Extract explanation
-    const explanationMatch = responseContent.match(/Explanation:([\s\S]*?)(?:Verification:|$)/i);
-    let explanation: string[] = [];
-    
-    if (explanationMatch && explanationMatch[1]) {
-      const steps = explanationMatch[1].match(/(?:^|\n)\s*(?:[-*•]|\d+\.)\s*(.*)/g);
-      if (steps) {
-        explanation = steps.map(step => 
-          step.replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').trim()
-        ).filter(Boolean);
-      } else {
-        explanation = explanationMatch[1].split('\n')
-          .map(line => line.trim())
-          .filter(Boolean);
-      }
-    }
-    
-    // Extract verification
-    const verificationMatch = responseContent.match(/Verification:([\s\S]*?)(?:Alternative|$)/i);
-    const verification = verificationMatch ? verificationMatch[1].trim() : "";
-    
-    // Extract alternatives
-    const alternativesMatch = responseContent.match(/Alternative[^:]*:([\s\S]*?)$/i);
-    const alternatives = alternativesMatch ? alternativesMatch[1].trim() : "";
-    
-    // Construct the formatted response
+  private processLinuxSolution(solution: LinuxSolution) {
     const formattedResponse = {
-      code: commands,
-      thoughts: explanation.length > 0 ? explanation : ["Linux commands based on requirements"],
+      code: solution.commands,
+      thoughts: solution.explanation.length > 0 ? solution.explanation : ["Linux commands based on requirements"],
       time_complexity: "N/A for Linux commands",
       space_complexity: "N/A for Linux commands",
       // Additional Linux specific fields
-      verification: verification,
-      alternatives: alternatives
+      verification: solution.verification,
+      alternatives: solution.alternatives
     };
 
     return { success: true, data: formattedResponse };
   }
 
-  private processCertificationSolution(responseContent: string) {
-    // Extract answer
-    const answerMatch = responseContent.match(/(?:Answer|Correct Answer|Solution):([\s\S]*?)(?:Explanation:|$)/i);
-    const answer = answerMatch ? answerMatch[1].trim() : "";
-    
-    // Extract explanation
-    const explanationMatch = responseContent.match(/Explanation:([\s\S]*?)(?:Additional Context:|$)/i);
-    let explanation: string[] = [];
-    
-    if (explanationMatch && explanationMatch[1]) {
-      const paragraphs = explanationMatch[1].split('\n\n').filter(Boolean);
-      explanation = paragraphs.map(p => p.trim());
-    }
-    
-    // Extract additional context
-    const contextMatch = responseContent.match(/Additional Context:([\s\S]*?)$/i);
-    const additionalContext = contextMatch ? contextMatch[1].trim() : "";
-    
-    // Construct the formatted response
+  private processCertificationSolution(solution: CertificationSolution) {
     const formattedResponse = {
-      code: answer, // Put answer in the code field for display
-      thoughts: explanation.length > 0 ? explanation : ["Certification answer based on knowledge"],
+      code: solution.answer, // Put answer in the code field for display
+      thoughts: solution.explanation.length > 0 ? solution.explanation : ["Certification answer based on knowledge"],
       time_complexity: "N/A for certification exam",
       space_complexity: "N/A for certification exam",
       // Additional certification specific fields
-      answer: answer,
-      additional_context: additionalContext
+      answer: solution.answer,
+      selected_options: solution.selected_options,
+      additional_context: solution.additional_context
     };
 
     return { success: true, data: formattedResponse };
@@ -1109,12 +2194,31 @@ I need a comprehensive solution with clear explanations.
         });
       }
 
-      // Send to vision API
-      const debugResponse = await this.modelAdapter.vision(messages, {
-        maxTokens: 4000,
-        temperature: 0.2,
-        signal
-      });
+      // Send to vision API, streaming the analysis as it is generated. The
+      // screenshots need the extraction model, the fix uses the mode's parameters.
+      const debugAdapter = this.getModeAdapter(this.modelAdapter, interviewMode, "extraction");
+      const visionError = this.checkVisionSupport(debugAdapter);
+      if (visionError) {
+        return { success: false, error: visionError };
+      }
+      const profile = configHelper.getModeProfile(interviewMode);
+      const debugResponse = await debugAdapter.visionStream(
+        messages,
+        (_delta, snapshot) => {
+          if (mainWindow) {
+            mainWindow.webContents.send(
+              this.deps.PROCESSING_EVENTS.DEBUG_CHUNK,
+              snapshot
+            );
+          }
+        },
+        {
+          maxTokens: profile.maxTokens,
+          temperature: profile.temperature,
+          signal
+        }
+      );
+      this.recordUsage(debugResponse, interviewMode, debugAdapter);
       
       // Update final progress
       if (mainWindow) {
@@ -1146,23 +2250,25 @@ I need a comprehensive solution with clear explanations.
         debug_analysis: debugContent,
         thoughts: thoughts,
         time_complexity: "N/A - Debug mode",
-        space_complexity: "N/A - Debug mode"
+        space_complexity: "N/A - Debug mode",
+        provider: debugResponse.provider || debugAdapter.provider,
+        model: debugResponse.model || debugAdapter.getCurrentModel()
       };
 
       return { success: true, data: response };
     } catch (error: any) {
-      // Handle API errors specifically
-      if (error?.response?.status === 401) {
-        return {
-          success: false,
-          error: "Invalid API key. Please check your settings."
-        };
-      } else if (error?.response?.status === 429) {
+      if (signal.aborted || error instanceof AbortedError) {
         return {
           success: false,
-          error: "API rate limit exceeded or insufficient credits. Please try again later."
+          error: "Extra processing was canceled by the user."
         };
       }
+
+      // Handle API errors specifically
+      const modelErrorMessage = this.describeModelError(error);
+      if (modelErrorMessage) {
+        return { success: false, error: modelErrorMessage };
+      }
       
       console.error("Debug processing error:", error);
       return { success: false, error: error.message || "Failed to process debug request" };
@@ -1172,6 +2278,7 @@ I need a comprehensive solution with clear explanations.
   private createDebugSystemPromptByMode(mode: string): string {
     switch(mode) {
       case "coding":
+      case "hints":
         return `You are a coding interview assistant helping debug and improve solutions. Analyze these screenshots which include either error messages, incorrect outputs, or test cases, and provide detailed debugging help.
 
 Your response MUST follow this exact structure with these section headers (use ### for headers):
@@ -1321,6 +2428,7 @@ If you include code examples, use proper markdown code blocks with language spec
   private createDebugUserPromptByMode(mode: string, problemInfo: any, language: string): string {
     switch(mode) {
       case "coding":
+      case "hints":
         return `I'm solving this coding problem: "${problemInfo.problem_statement}" in ${language}. I need help with debugging or improving my solution. Here are screenshots of my code, the errors or test cases. Please provide a detailed analysis with:
 1. What issues you found in my code
 2. Specific improvements and corrections
@@ -1387,11 +2495,26 @@ If you include code examples, use proper markdown code blocks with language spec
       wasCancelled = true
     }
 
+    // A follow-up, test run or benchmark belongs to the solution being cleared
+    if (this.currentFollowUpAbortController) {
+      this.currentFollowUpAbortController.abort()
+      this.currentFollowUpAbortController = null
+    }
+    if (this.currentTestAbortController) {
+      this.currentTestAbortController.abort()
+      this.currentTestAbortController = null
+    }
+    if (this.currentBenchmarkAbortController) {
+      this.currentBenchmarkAbortController.abort()
+      this.currentBenchmarkAbortController = null
+    }
+
     // Reset hasDebugged flag
     this.deps.setHasDebugged(false)
 
     // Clear any pending state
     this.deps.setProblemInfo(null)
+    this.deps.setFollowUpThread([])
 
     const mainWindow = this.deps.getMainWindow()
     if (wasCancelled && mainWindow && !mainWindow.isDestroyed()) {
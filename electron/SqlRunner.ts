@@ -0,0 +1,153 @@
+// SqlRunner.ts
+import path from "node:path"
+import { Worker } from "node:worker_threads"
+import type { SqlJob, SqlJobResult } from "./SqlWorker"
+
+export type SqlCell = string | number | null
+
+/**
+ * Columns and rows of a query result
+ */
+export interface SqlResultGrid {
+  columns: string[]
+  rows: SqlCell[][]
+}
+
+/**
+ * Outcome of running a query against the sample data
+ */
+export interface SqlExecution extends SqlResultGrid {
+  // More rows were returned than are kept
+  truncated: boolean
+  // The tables or sample rows couldn't be created
+  setupError?: string
+  error?: string
+}
+
+const SQL_TIMEOUT_MS = 5000
+const MAX_RESULT_ROWS = 200
+
+interface DialectPattern {
+  dialect: string
+  feature: string
+  pattern: RegExp
+}
+
+// Syntax SQLite lacks or reads differently, so a query using it may fail
+// or return something else here than on the interview's database
+const DIALECT_PATTERNS: DialectPattern[] = [
+  { dialect: "PostgreSQL", feature: ":: casts", pattern: /::\s*[a-z]/i },
+  { dialect: "PostgreSQL", feature: "ILIKE", pattern: /\bilike\b/i },
+  { dialect: "PostgreSQL", feature: "DISTINCT ON", pattern: /\bdistinct\s+on\s*\(/i },
+  { dialect: "PostgreSQL", feature: "DATE_TRUNC", pattern: /\bdate_trunc\s*\(/i },
+  { dialect: "PostgreSQL", feature: "TO_CHAR", pattern: /\bto_char\s*\(/i },
+  { dialect: "PostgreSQL", feature: "STRING_AGG", pattern: /\bstring_agg\s*\(/i },
+  { dialect: "PostgreSQL", feature: "ARRAY_AGG", pattern: /\barray_agg\s*\(/i },
+  { dialect: "PostgreSQL", feature: "GENERATE_SERIES", pattern: /\bgenerate_series\s*\(/i },
+  { dialect: "PostgreSQL", feature: "INTERVAL '...' literals", pattern: /\binterval\s+'/i },
+  { dialect: "PostgreSQL and MySQL", feature: "EXTRACT", pattern: /\bextract\s*\(\s*\w+\s+from\b/i },
+  { dialect: "PostgreSQL and MySQL", feature: "NOW()", pattern: /\bnow\s*\(\s*\)/i },
+  { dialect: "MySQL", feature: "INTERVAL n UNIT", pattern: /\binterval\s+\d+\s+[a-z]+/i },
+  { dialect: "MySQL", feature: "DATE_FORMAT", pattern: /\bdate_format\s*\(/i },
+  { dialect: "MySQL", feature: "DATEDIFF", pattern: /\bdatediff\s*\(/i },
+  { dialect: "MySQL", feature: "DATE_ADD / DATE_SUB", pattern: /\bdate_(?:add|sub)\s*\(/i },
+  { dialect: "MySQL", feature: "CURDATE()", pattern: /\bcurdate\s*\(/i },
+  { dialect: "MySQL", feature: "STR_TO_DATE", pattern: /\bstr_to_date\s*\(/i },
+  { dialect: "MySQL", feature: "YEAR() / MONTH() / DAY()", pattern: /\b(?:year|month|day)\s*\(/i }
+]
+
+/**
+ * Warnings for syntax in the query that belongs to PostgreSQL or MySQL
+ * rather than SQLite
+ */
+export function detectDialectWarnings(query: string): string[] {
+  // String literals can mention anything
+  const code = query.replace(/'(?:[^']|'')*'/g, "''")
+  return DIALECT_PATTERNS
+    .filter(({ pattern }) => pattern.test(code))
+    .map(({ dialect, feature }) =>
+      `${feature} is ${dialect} syntax; SQLite may reject it or behave differently.`
+    )
+}
+
+/**
+ * A cell as text for comparison: numbers rounded so 2.5 and "2.50" match,
+ * and every spelling of NULL the same
+ */
+const normalizeCell = (value: SqlCell): string => {
+  if (value === null) return "NULL"
+  const text = String(value).trim()
+  if (/^null$/i.test(text)) return "NULL"
+  const number = Number(text)
+  if (text !== "" && Number.isFinite(number)) {
+    return String(Math.round(number * 10000) / 10000)
+  }
+  return text
+}
+
+/**
+ * Whether two results hold the same rows. Column names are ignored since
+ * aliases differ freely; row order only counts when the query sorts.
+ */
+export function compareResultGrids(
+  actual: SqlResultGrid,
+  expected: SqlResultGrid,
+  ordered: boolean
+): boolean {
+  const serialize = (grid: SqlResultGrid) =>
+    grid.rows.map(row => row.map(normalizeCell).join("\u0000"))
+
+  const actualRows = serialize(actual)
+  const expectedRows = serialize(expected)
+  if (actualRows.length !== expectedRows.length) return false
+  if (!ordered) {
+    actualRows.sort()
+    expectedRows.sort()
+  }
+  return actualRows.every((row, index) => row === expectedRows[index])
+}
+
+/**
+ * Runs SQL answers against the problem's sample data in an in-memory
+ * SQLite database. Each query gets a fresh database in a worker thread,
+ * which is stopped if the query runs too long.
+ */
+export class SqlRunner {
+  public execute(
+    setupSql: string,
+    query: string,
+    timeoutMs: number = SQL_TIMEOUT_MS
+  ): Promise<SqlExecution> {
+    const job: SqlJob = { setupSql, query, maxRows: MAX_RESULT_ROWS }
+    const empty = { columns: [], rows: [], truncated: false }
+
+    return new Promise(resolve => {
+      let settled = false
+      const worker = new Worker(path.join(__dirname, "SqlWorker.js"), {
+        workerData: job,
+        resourceLimits: { maxOldGenerationSizeMb: 256 }
+      })
+
+      const finish = (result: SqlExecution) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timer)
+        worker.terminate().catch(() => {})
+        resolve(result)
+      }
+
+      const timer = setTimeout(() => {
+        finish({ ...empty, error: `The query ran for more than ${timeoutMs / 1000} seconds` })
+      }, timeoutMs)
+
+      worker.once("message", (result: SqlJobResult) => finish(result))
+      worker.once("error", err => finish({ ...empty, error: err.message }))
+      worker.once("exit", code => {
+        finish({ ...empty, error: `SQLite stopped unexpectedly (exit code ${code})` })
+      })
+    })
+  }
+}
+
+// Export a singleton instance
+export const sqlRunner = new SqlRunner()
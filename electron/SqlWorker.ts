@@ -0,0 +1,60 @@
+// SqlWorker.ts - Runs one query against a throwaway in-memory SQLite database.
+// Started by SqlRunner in a worker thread so a runaway query can be stopped.
+import { parentPort, workerData } from "node:worker_threads"
+import initSqlJs from "sql.js"
+
+export interface SqlJob {
+  setupSql: string
+  query: string
+  maxRows: number
+}
+
+export interface SqlJobResult {
+  columns: string[]
+  rows: Array<Array<string | number | null>>
+  truncated: boolean
+  setupError?: string
+  error?: string
+}
+
+async function runJob({ setupSql, query, maxRows }: SqlJob): Promise<SqlJobResult> {
+  const empty = { columns: [], rows: [], truncated: false }
+  const SQL = await initSqlJs()
+  const db = new SQL.Database()
+
+  try {
+    try {
+      db.exec(setupSql)
+    } catch (err: any) {
+      return { ...empty, setupError: err.message || String(err) }
+    }
+
+    try {
+      // The last statement's rows are the answer
+      const results = db.exec(query)
+      const last = results[results.length - 1]
+      if (!last) return empty
+
+      return {
+        columns: last.columns,
+        rows: last.values
+          .slice(0, maxRows)
+          .map(row => row.map(value => (value instanceof Uint8Array ? "<blob>" : value))),
+        truncated: last.values.length > maxRows
+      }
+    } catch (err: any) {
+      return { ...empty, error: err.message || String(err) }
+    }
+  } finally {
+    db.close()
+  }
+}
+
+runJob(workerData as SqlJob)
+  .then(result => parentPort?.postMessage(result))
+  .catch(err => parentPort?.postMessage({
+    columns: [],
+    rows: [],
+    truncated: false,
+    error: err?.message || "Failed to start SQLite"
+  }))
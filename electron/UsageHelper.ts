@@ -0,0 +1,314 @@
+// UsageHelper.ts
+import fs from "node:fs"
+import path from "node:path"
+import { app } from "electron"
+import { configHelper, ModelPrice, BudgetLimits } from "./ConfigHelper"
+import { modelRegistry } from "./models/ModelRegistry"
+
+// Ledger entries older than this are dropped when the ledger is written
+const RETENTION_DAYS = 400
+
+// Provider name the Azure adapter records usage under
+const AZURE_PROVIDER_NAME = "Azure OpenAI"
+// Local servers cost nothing unless the user prices their models
+const LOCAL_PROVIDER_NAME = "Local"
+
+export interface UsageEntry {
+  timestamp: string
+  sessionId: string
+  provider: string
+  model: string
+  mode: string
+  promptTokens: number
+  completionTokens: number
+  cost: number
+  // No price was known when the request was made, so cost is 0
+  unpriced?: boolean
+}
+
+export interface UsageTotals {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  cost: number
+}
+
+export interface UsageSummary {
+  session: UsageTotals
+  today: UsageTotals
+  month: UsageTotals
+  daily: Array<UsageTotals & { date: string }>
+  monthly: Array<UsageTotals & { month: string }>
+  byModel: Array<UsageTotals & { provider: string; model: string; unpriced?: boolean }>
+  prices: Record<string, ModelPrice>
+  // Models in the ledger that still have no price
+  unpricedModels: string[]
+}
+
+export interface BudgetStatus {
+  level: "ok" | "soft" | "hard"
+  period?: keyof BudgetLimits
+  spent?: number
+  limit?: number
+  // Set when the limit can't be enforced because these models are unpriced
+  unpricedModels?: string[]
+}
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0
+})
+
+const addToTotals = (totals: UsageTotals, entry: UsageEntry): void => {
+  totals.requests++
+  totals.promptTokens += entry.promptTokens
+  totals.completionTokens += entry.completionTokens
+  totals.cost += entry.cost
+}
+
+// Local calendar date as YYYY-MM-DD
+const toDateKey = (date: Date): string => date.toLocaleDateString("en-CA")
+
+export class UsageHelper {
+  private ledgerPath: string
+  private entries: UsageEntry[] | null = null
+  // Identifies requests made since the app was launched
+  private sessionId: string = Date.now().toString(36)
+
+  constructor() {
+    try {
+      this.ledgerPath = path.join(app.getPath('userData'), 'usage.json')
+    } catch (err) {
+      console.warn('Could not access user data path, using fallback')
+      this.ledgerPath = path.join(process.cwd(), 'usage.json')
+    }
+  }
+
+  /**
+   * Load ledger entries from disk, caching them after the first read
+   */
+  private loadEntries(): UsageEntry[] {
+    if (this.entries) return this.entries
+
+    try {
+      if (fs.existsSync(this.ledgerPath)) {
+        const data = JSON.parse(fs.readFileSync(this.ledgerPath, 'utf8'))
+        this.entries = Array.isArray(data) ? data : []
+      } else {
+        this.entries = []
+      }
+    } catch (err) {
+      console.error("Error loading usage ledger:", err)
+      this.entries = []
+    }
+    return this.entries
+  }
+
+  private saveEntries(): void {
+    try {
+      const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000
+      this.entries = this.loadEntries().filter(
+        entry => new Date(entry.timestamp).getTime() >= cutoff
+      )
+      fs.mkdirSync(path.dirname(this.ledgerPath), { recursive: true })
+      fs.writeFileSync(this.ledgerPath, JSON.stringify(this.entries, null, 2))
+    } catch (err) {
+      console.error("Error saving usage ledger:", err)
+    }
+  }
+
+  /**
+   * Price table: model catalog prices merged with the user's overrides
+   */
+  public getPrices(): Record<string, ModelPrice> {
+    return {
+      ...modelRegistry.getPricing(),
+      ...configHelper.loadConfig().modelPrices
+    }
+  }
+
+  /**
+   * Price of a model. Azure usage is recorded under the deployment name,
+   * which the catalog only prices once it has listed the deployments, so
+   * mapped deployments take the price of the OpenAI model they serve
+   * unless the user priced the deployment itself.
+   */
+  private getPrice(model: string, provider?: string): ModelPrice | undefined {
+    const prices = this.getPrices()
+    const servedModel = provider === AZURE_PROVIDER_NAME
+      ? configHelper.getProviderConfig("azure")?.deployments?.[model]
+      : undefined
+    if (servedModel && !configHelper.loadConfig().modelPrices?.[model]) {
+      return prices[servedModel] || prices[model]
+    }
+    if (provider === LOCAL_PROVIDER_NAME && !prices[model]) {
+      return { input: 0, output: 0 }
+    }
+    return prices[model]
+  }
+
+  /**
+   * Estimated cost in USD of a request to the given model, or null if the
+   * model has no price
+   */
+  public estimateCost(
+    model: string,
+    promptTokens: number,
+    completionTokens: number,
+    provider?: string
+  ): number | null {
+    const price = this.getPrice(model, provider)
+    if (!price) return null
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+  }
+
+  /**
+   * Entries recorded before their model was priced are costed at the
+   * current price, once there is one
+   */
+  private withCurrentPrice(entry: UsageEntry): UsageEntry {
+    if (!entry.unpriced) return entry
+    const cost = this.estimateCost(
+      entry.model,
+      entry.promptTokens,
+      entry.completionTokens,
+      entry.provider
+    )
+    return cost === null ? entry : { ...entry, cost, unpriced: false }
+  }
+
+  /**
+   * Record one model request in the ledger
+   */
+  public record(request: {
+    provider: string
+    model: string
+    mode: string
+    usage?: { promptTokens?: number; completionTokens?: number }
+  }): UsageEntry {
+    const promptTokens = request.usage?.promptTokens || 0
+    const completionTokens = request.usage?.completionTokens || 0
+    const cost = this.estimateCost(request.model, promptTokens, completionTokens, request.provider)
+    if (cost === null) {
+      console.warn(`No price for ${request.provider}/${request.model}, its usage is not counted toward spending limits`)
+    }
+
+    const entry: UsageEntry = {
+      timestamp: new Date().toISOString(),
+      sessionId: this.sessionId,
+      provider: request.provider,
+      model: request.model,
+      mode: request.mode,
+      promptTokens,
+      completionTokens,
+      cost: cost ?? 0,
+      ...(cost === null ? { unpriced: true } : {})
+    }
+
+    this.loadEntries().push(entry)
+    this.saveEntries()
+    return entry
+  }
+
+  /**
+   * Totals for the current session, today and this month, plus daily,
+   * monthly and per-model breakdowns
+   */
+  public getSummary(): UsageSummary {
+    const entries = this.loadEntries().map(entry => this.withCurrentPrice(entry))
+    const todayKey = toDateKey(new Date())
+    const monthKey = todayKey.slice(0, 7)
+
+    const session = emptyTotals()
+    const today = emptyTotals()
+    const month = emptyTotals()
+    const daily = new Map<string, UsageTotals>()
+    const monthly = new Map<string, UsageTotals>()
+    const byModel = new Map<string, UsageTotals & { provider: string; model: string; unpriced?: boolean }>()
+
+    for (const entry of entries) {
+      const dateKey = toDateKey(new Date(entry.timestamp))
+      const entryMonth = dateKey.slice(0, 7)
+
+      if (entry.sessionId === this.sessionId) addToTotals(session, entry)
+      if (dateKey === todayKey) addToTotals(today, entry)
+      if (entryMonth === monthKey) addToTotals(month, entry)
+
+      const day = daily.get(dateKey) || emptyTotals()
+      addToTotals(day, entry)
+      daily.set(dateKey, day)
+
+      const monthTotals = monthly.get(entryMonth) || emptyTotals()
+      addToTotals(monthTotals, entry)
+      monthly.set(entryMonth, monthTotals)
+
+      const modelKey = `${entry.provider}/${entry.model}`
+      const modelTotals = byModel.get(modelKey) ||
+        { ...emptyTotals(), provider: entry.provider, model: entry.model }
+      addToTotals(modelTotals, entry)
+      if (entry.unpriced) modelTotals.unpriced = true
+      byModel.set(modelKey, modelTotals)
+    }
+
+    return {
+      session,
+      today,
+      month,
+      daily: Array.from(daily, ([date, totals]) => ({ date, ...totals }))
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, 30),
+      monthly: Array.from(monthly, ([month, totals]) => ({ month, ...totals }))
+        .sort((a, b) => b.month.localeCompare(a.month))
+        .slice(0, 12),
+      byModel: Array.from(byModel.values()).sort((a, b) => b.cost - a.cost),
+      prices: this.getPrices(),
+      unpricedModels: Array.from(new Set(
+        Array.from(byModel.values()).filter(entry => entry.unpriced).map(entry => entry.model)
+      ))
+    }
+  }
+
+  /**
+   * Compare current spend with the configured budgets. A reached hard limit
+   * in any period takes precedence over crossed soft limits. Usage of an
+   * unpriced model can't be counted, so while there is any, a hard limit
+   * blocks requests and a soft limit warns until the model is priced.
+   */
+  public checkBudget(): BudgetStatus {
+    const budgets = configHelper.loadConfig().budgets
+    const summary = this.getSummary()
+    const spend: Record<keyof BudgetLimits, number> = {
+      session: summary.session.cost,
+      daily: summary.today.cost,
+      monthly: summary.month.cost
+    }
+    const periods = Object.keys(spend) as Array<keyof BudgetLimits>
+
+    for (const level of ["hard", "soft"] as const) {
+      for (const period of periods) {
+        const limit = budgets[period]?.[level]
+        if (typeof limit === "number" && spend[period] >= limit) {
+          return { level, period, spent: spend[period], limit }
+        }
+      }
+      const hasLimit = periods.some(period => typeof budgets[period]?.[level] === "number")
+      if (hasLimit && summary.unpricedModels.length > 0) {
+        return { level, unpricedModels: summary.unpricedModels }
+      }
+    }
+    return { level: "ok" }
+  }
+
+  /**
+   * Delete all recorded usage
+   */
+  public clear(): void {
+    this.entries = []
+    this.saveEntries()
+  }
+}
+
+// Export a singleton instance
+export const usageHelper = new UsageHelper()
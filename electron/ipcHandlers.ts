@@ -2,10 +2,35 @@
 
 import { ipcMain, shell, dialog } from "electron"
 import { randomBytes } from "crypto"
+import fs from "node:fs"
 import { IIpcHandlerDeps } from "./main"
-import { configHelper } from "./ConfigHelper"
+import { configHelper, NetworkSettings } from "./ConfigHelper"
 import { ModelProvider } from "./models/ModelFactory"
-import { createModelAdapter } from "./models/ModelFactory"
+import { createModelAdapter, getAvailableModels, getAvailableProviders } from "./models/ModelFactory"
+import { modelRegistry } from "./models/ModelRegistry"
+import { LocalAdapter } from "./models/LocalAdapter"
+import { usageHelper } from "./UsageHelper"
+import { hintsHelper } from "./HintsHelper"
+import { TestRunSummary } from "./ProcessingHelper"
+import { TestCase } from "./ModeSchemas"
+
+/**
+ * Fetch a provider's model list with the saved (or given) API key and
+ * store it in the model registry
+ */
+async function refreshModelCatalog(provider: ModelProvider, apiKey?: string) {
+  const providerConfig = configHelper.getProviderConfig(provider);
+  const adapter = createModelAdapter({
+    provider,
+    apiKey: apiKey || providerConfig?.apiKey || "",
+    model: providerConfig?.model,
+    baseUrl: providerConfig?.baseUrl,
+    apiVersion: providerConfig?.apiVersion,
+    deployments: providerConfig?.deployments,
+    network: configHelper.getNetworkOptions()
+  });
+  return modelRegistry.refresh(provider, adapter);
+}
 
 export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
   console.log("Initializing IPC handlers")
@@ -16,14 +41,35 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
   })
 
   ipcMain.handle("update-config", (_event, updates) => {
-    return configHelper.updateConfig(updates);
+    // Refuse settings that would send screenshots to a text-only model
+    const error = configHelper.validateExtractionModels(updates);
+    if (error) {
+      return { success: false, error };
+    }
+    // updateConfig consumes the provider updates
+    const azureChanged = !!updates.providers?.azure;
+    const config = configHelper.updateConfig(updates);
+    if (azureChanged) {
+      // Deployments are listed from the mapping, so the catalog follows it
+      // without a request
+      refreshModelCatalog('azure').catch(error =>
+        console.error("Error updating Azure deployments:", error)
+      );
+    }
+    return config;
   })
 
   ipcMain.handle("check-api-key", () => {
     return configHelper.hasApiKey();
   })
   
-  ipcMain.handle("validate-api-key", async (_event, apiKey: string, provider: ModelProvider = 'openai') => {
+  ipcMain.handle("validate-api-key", async (
+    _event,
+    apiKey: string,
+    provider: ModelProvider = 'openai',
+    baseUrl?: string,
+    apiVersion?: string
+  ) => {
     // First check the format
     if (!configHelper.isValidApiKeyFormat(apiKey, provider)) {
       let errorMsg = "";
@@ -34,6 +80,12 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
         case 'claude':
           errorMsg = "Invalid API key format. Claude API keys start with 'sk-ant-'";
           break;
+        case 'gemini':
+          errorMsg = "Invalid API key format. Gemini API keys start with 'AIza'";
+          break;
+        case 'azure':
+          errorMsg = "Invalid API key format. Use KEY 1 or KEY 2 from your Azure OpenAI resource's Keys and Endpoint page";
+          break;
         default:
           errorMsg = "Invalid API key format.";
       }
@@ -45,10 +97,25 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
     }
     
     // Then test the API key with the provider
-    const result = await configHelper.testApiKey(apiKey, provider);
+    const result = await configHelper.testApiKey(apiKey, provider, { baseUrl, apiVersion });
     return result;
   })
 
+  // Check a provider can be reached over the given (possibly unsaved)
+  // network settings, with the saved API key unless one is passed
+  ipcMain.handle("test-connection", async (
+    _event,
+    provider: ModelProvider,
+    network: NetworkSettings,
+    options?: { apiKey?: string; baseUrl?: string }
+  ) => {
+    const apiKey = options?.apiKey || configHelper.getProviderConfig(provider)?.apiKey || "";
+    if (!apiKey && provider !== 'local') {
+      return { valid: false, error: "No API key saved for this provider" };
+    }
+    return configHelper.testApiKey(apiKey, provider, { baseUrl: options?.baseUrl }, network);
+  })
+
   // Credits handlers
   ipcMain.handle("set-initial-credits", async (_event, credits: number) => {
     const mainWindow = deps.getMainWindow()
@@ -120,6 +187,81 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
     await deps.processingHelper?.processScreenshots()
   })
 
+  // Follow-up chat about the current solution
+  ipcMain.handle("get-follow-up-thread", () => {
+    return deps.processingHelper?.getFollowUpMessages() || [];
+  })
+
+  ipcMain.handle("ask-follow-up", async (_event, question: string) => {
+    if (!question?.trim()) {
+      return { success: false, error: "Enter a question" };
+    }
+    return deps.processingHelper?.askFollowUp(question.trim()) ||
+      { success: false, error: "Processing is not available" };
+  })
+
+  ipcMain.handle("set-test-cases", (_event, testCases: TestCase[]) => {
+    return deps.processingHelper?.setTestCases(testCases || []) ||
+      { success: false, error: "Processing is not available" };
+  })
+
+  ipcMain.handle("run-tests", async (_event, code: string, language: string) => {
+    if (!code?.trim()) {
+      return { success: false, error: "There is no code to test" };
+    }
+    return deps.processingHelper?.runTests(code, language) ||
+      { success: false, error: "Processing is not available" };
+  })
+
+  ipcMain.handle("benchmark-complexity", async (
+    _event,
+    code: string,
+    language: string,
+    claimedTimeComplexity: string | null
+  ) => {
+    if (!code?.trim()) {
+      return { success: false, error: "There is no code to benchmark" };
+    }
+    return deps.processingHelper?.benchmarkComplexity(code, language, claimedTimeComplexity) ||
+      { success: false, error: "Processing is not available" };
+  })
+
+  ipcMain.handle("run-sql-query", async (_event, query: string) => {
+    if (!query?.trim()) {
+      return { success: false, error: "There is no query to run" };
+    }
+    return deps.processingHelper?.runSqlQuery(query) ||
+      { success: false, error: "Processing is not available" };
+  })
+
+  ipcMain.handle("fix-solution", async (_event, code: string, summary: TestRunSummary) => {
+    return deps.processingHelper?.fixSolution(code, summary) ||
+      { success: false, error: "Processing is not available" };
+  })
+
+  // Save a rendered diagram where the user picks; PNGs arrive as data URLs
+  ipcMain.handle("export-diagram", async (_event, format: "svg" | "png", data: string) => {
+    const mainWindow = deps.getMainWindow()
+    if (!mainWindow) return { success: false, error: "No window to save from" }
+
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+      defaultPath: `architecture.${format}`,
+      filters: [{ name: format.toUpperCase(), extensions: [format] }]
+    })
+    if (canceled || !filePath) return { success: false, canceled: true }
+
+    try {
+      const contents = format === "png"
+        ? Buffer.from(data.replace(/^data:image\/png;base64,/, ""), "base64")
+        : data
+      await fs.promises.writeFile(filePath, contents)
+      return { success: true, path: filePath }
+    } catch (error: any) {
+      console.error("Error exporting diagram:", error)
+      return { success: false, error: error.message || "Failed to save the diagram" }
+    }
+  })
+
   // Window dimension handlers
   ipcMain.handle(
     "update-content-dimensions",
@@ -365,38 +507,81 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
   
   // Get available AI providers handler
   ipcMain.handle("get-available-providers", () => {
-    return {
-      openai: { 
-        name: 'OpenAI', 
-        description: 'GPT models with great coding and vision capabilities' 
-      },
-      claude: { 
-        name: 'Claude', 
-        description: 'Anthropic models with strong reasoning and long contexts' 
-      }
-    };
+    return getAvailableProviders();
   })
   
-  // Get available models for a provider handler
-  ipcMain.handle("get-available-models", (_event, provider: ModelProvider) => {
-    switch(provider) {
-      case 'openai':
-        return [
-          { id: 'gpt-4o', name: 'GPT-4o', description: 'Best overall performance, supports images' },
-          { id: 'gpt-4o-mini', name: 'GPT-4o Mini', description: 'Faster, more cost-effective option' },
-          { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', description: 'Advanced capabilities with vision support' },
-          { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', description: 'Fast and efficient for text-only tasks' }
-        ];
-      case 'claude':
-        return [
-          { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus', description: 'Most powerful Claude model' },
-          { id: 'claude-3-sonnet-20240229', name: 'Claude 3 Sonnet', description: 'Great balance of intelligence and speed' },
-          { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku', description: 'Fastest Claude model, good for quick responses' },
-          { id: 'claude-3-5-sonnet-20240620', name: 'Claude 3.5 Sonnet', description: 'Latest Claude with improved capabilities' }
-        ];
-      default:
+  // Get the model catalog for a provider. Local endpoints are always
+  // queried via /v1/models (pass baseUrl/apiKey to probe unsaved settings)
+  // and Azure lists its mapped deployments; other providers refresh from
+  // their list-models endpoint once stale.
+  ipcMain.handle("get-available-models", async (
+    _event,
+    provider: ModelProvider,
+    options?: { baseUrl?: string; apiKey?: string }
+  ) => {
+    if (provider === 'local') {
+      const localConfig = configHelper.getProviderConfig('local');
+      const adapter = new LocalAdapter(
+        options?.baseUrl || localConfig?.baseUrl,
+        options?.apiKey ?? localConfig?.apiKey,
+        localConfig?.model,
+        configHelper.getNetworkOptions()
+      );
+      try {
+        return await modelRegistry.refresh('local', adapter);
+      } catch (error) {
+        console.error("Error discovering local models:", error);
         return [];
+      }
+    }
+
+    // Azure deployments come from the saved mapping, which is always current
+    if (provider === 'azure') {
+      return refreshModelCatalog('azure');
     }
+
+    if (modelRegistry.isStale(provider) && configHelper.hasApiKey(provider)) {
+      try {
+        return await refreshModelCatalog(provider, options?.apiKey);
+      } catch (error) {
+        console.warn(`Could not refresh ${provider} models, using cached catalog:`, error);
+      }
+    }
+    return getAvailableModels(provider);
+  })
+  
+  // Force a refresh of a provider's model catalog
+  ipcMain.handle("refresh-models", async (
+    _event,
+    provider: ModelProvider,
+    options?: { apiKey?: string }
+  ) => {
+    try {
+      return { success: true, models: await refreshModelCatalog(provider, options?.apiKey) };
+    } catch (error: any) {
+      console.error(`Error refreshing ${provider} models:`, error);
+      return { success: false, error: error.message || "Failed to refresh models", models: getAvailableModels(provider) };
+    }
+  })
+  
+  // Usage ledger handlers
+  ipcMain.handle("get-usage-summary", () => {
+    return usageHelper.getSummary();
+  })
+  
+  ipcMain.handle("clear-usage", () => {
+    usageHelper.clear();
+    return { success: true };
+  })
+  
+  // Hints revealed for a practice problem
+  ipcMain.handle("record-hints-used", (
+    _event,
+    problem: string,
+    hintsUsed: number,
+    totalHints: number
+  ) => {
+    return hintsHelper.recordHintsUsed(problem || "", hintsUsed, totalHints);
   })
   
   // Interview modes handler
@@ -407,7 +592,8 @@ export function initializeIpcHandlers(deps: IIpcHandlerDeps): void {
       { id: 'react', name: 'React Frontend', description: 'React component and UI implementation' },
       { id: 'sql', name: 'SQL', description: 'Database query and schema design questions' },
       { id: 'linux', name: 'Linux/Kernel', description: 'Command-line and system administration problems' },
-      { id: 'certification', name: 'Certification Exam', description: 'Multiple choice, fill-in-blank, and other exam formats' }
+      { id: 'certification', name: 'Certification Exam', description: 'Multiple choice, fill-in-blank, and other exam formats' },
+      { id: 'hints', name: 'Practice (Hints)', description: 'Coding problems answered as a ladder of hints, one step at a time' }
     ];
   })
   
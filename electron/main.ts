@@ -7,6 +7,7 @@ import { ScreenshotHelper } from "./ScreenshotHelper"
 import { ShortcutsHelper } from "./shortcuts"
 import { initAutoUpdater } from "./autoUpdater"
 import { configHelper } from "./ConfigHelper"
+import { ModelMessage } from "./models/ModelInterface"
 import * as dotenv from "dotenv"
 
 // Constants
@@ -34,20 +35,27 @@ const state = {
   view: "queue" as "queue" | "solutions" | "debug",
   problemInfo: null as any,
   hasDebugged: false,
+  // Follow-up conversation about the current solution, seeded with the
+  // problem and solution
+  followUpThread: [] as ModelMessage[],
 
   // Processing events
   PROCESSING_EVENTS: {
     UNAUTHORIZED: "processing-unauthorized",
     NO_SCREENSHOTS: "processing-no-screenshots",
     OUT_OF_CREDITS: "out-of-credits",
+    BUDGET_WARNING: "budget-warning",
     API_KEY_INVALID: "api-key-invalid",
     INITIAL_START: "initial-start",
     PROBLEM_EXTRACTED: "problem-extracted",
+    SOLUTION_CHUNK: "solution-chunk",
     SOLUTION_SUCCESS: "solution-success",
     INITIAL_SOLUTION_ERROR: "solution-error",
     DEBUG_START: "debug-start",
+    DEBUG_CHUNK: "debug-chunk",
     DEBUG_SUCCESS: "debug-success",
-    DEBUG_ERROR: "debug-error"
+    DEBUG_ERROR: "debug-error",
+    FOLLOW_UP_CHUNK: "follow-up-chunk"
   } as const
 }
 
@@ -69,6 +77,8 @@ export interface IProcessingHelperDeps {
   ) => Promise<{ success: boolean; error?: string }>
   setHasDebugged: (value: boolean) => void
   getHasDebugged: () => boolean
+  getFollowUpThread: () => ModelMessage[]
+  setFollowUpThread: (thread: ModelMessage[]) => void
   PROCESSING_EVENTS: typeof state.PROCESSING_EVENTS
 }
 
@@ -127,6 +137,8 @@ function initializeHelpers() {
     deleteScreenshot,
     setHasDebugged,
     getHasDebugged,
+    getFollowUpThread,
+    setFollowUpThread,
     PROCESSING_EVENTS: state.PROCESSING_EVENTS
   } as IProcessingHelperDeps)
   state.shortcutsHelper = new ShortcutsHelper({
@@ -641,6 +653,7 @@ function getExtraScreenshotQueue(): string[] {
 function clearQueues(): void {
   state.screenshotHelper?.clearQueues()
   state.problemInfo = null
+  state.followUpThread = []
   setView("queue")
 }
 
@@ -677,6 +690,14 @@ function getHasDebugged(): boolean {
   return state.hasDebugged
 }
 
+function getFollowUpThread(): ModelMessage[] {
+  return state.followUpThread
+}
+
+function setFollowUpThread(thread: ModelMessage[]): void {
+  state.followUpThread = thread
+}
+
 // Export state and functions for other modules
 export {
   state,
@@ -700,7 +721,9 @@ export {
   getImagePreview,
   deleteScreenshot,
   setHasDebugged,
-  getHasDebugged
+  getHasDebugged,
+  getFollowUpThread,
+  setFollowUpThread
 }
 
 app.whenReady().then(initializeApp)
@@ -0,0 +1,172 @@
+// AzureOpenAIAdapter.ts - Azure OpenAI deployments behind the OpenAI adapter
+
+import { AzureOpenAI } from "openai";
+import { DiscoveredModel, ModelAdapter } from "./ModelInterface";
+import { OpenAIAdapter } from "./OpenAIAdapter";
+import { modelRegistry } from "./ModelRegistry";
+import { ModelProvider } from "./ModelFactory";
+import { getClientOptions, NetworkOptions } from "./NetworkOptions";
+
+export const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+/**
+ * Normalize a user-entered resource endpoint, e.g.
+ * "https://contoso.openai.azure.com/openai/" becomes
+ * "https://contoso.openai.azure.com". The client adds the /openai path.
+ */
+export function normalizeAzureEndpoint(endpoint: string): string {
+  return (endpoint || "").trim().replace(/\/+$/, "").replace(/\/openai$/, "");
+}
+
+/**
+ * Catalog entry for a deployment, taking the capabilities and pricing of
+ * the OpenAI model it serves. Deployments missing from the mapping are
+ * assumed to be named after their model.
+ */
+export function describeDeployment(
+  deployment: string,
+  deployments: Record<string, string> = {}
+): DiscoveredModel {
+  const model = modelRegistry.getModel("openai", deployments[deployment] || deployment);
+  return {
+    id: deployment,
+    name: deployment === model.id ? deployment : `${deployment} (${model.name})`,
+    description: `Azure deployment of ${model.id}`,
+    supportsVision: model.supportsVision,
+    contextWindow: model.contextWindow,
+    maxOutputTokens: model.maxOutputTokens,
+    pricing: model.pricing
+  };
+}
+
+/**
+ * Adapter for an Azure OpenAI resource. Requests are addressed to a
+ * deployment rather than a model, so the configured model is a deployment
+ * name and the mapping says which OpenAI model it serves.
+ */
+export class AzureOpenAIAdapter extends OpenAIAdapter {
+  readonly provider = "Azure OpenAI";
+  private endpoint: string;
+
+  constructor(
+    endpoint: string,
+    apiKey: string,
+    deployment: string,
+    private apiVersion: string = DEFAULT_AZURE_API_VERSION,
+    private deployments: Record<string, string> = {},
+    network?: NetworkOptions
+  ) {
+    const normalized = normalizeAzureEndpoint(endpoint);
+    super(apiKey, deployment, normalized ? getClientOptions(normalized, network) : {});
+    this.endpoint = normalized;
+    // The parent constructor ran before the fields above were set
+    this.initializeClient();
+  }
+
+  protected get catalogProvider(): ModelProvider {
+    return "azure";
+  }
+
+  /**
+   * OpenAI model the current deployment serves
+   */
+  private get servedModel(): string {
+    return this.deployments?.[this.model] || this.model;
+  }
+
+  protected validateModel(model: string): string {
+    // Deployment names are chosen by the tenant, so any name is valid
+    return model;
+  }
+
+  protected supportsStructuredOutputs(): boolean {
+    return /gpt-4o|gpt-4\.1|gpt-5|^o[134]/.test(this.servedModel);
+  }
+
+  private createClient(apiKey: string): AzureOpenAI {
+    return new AzureOpenAI({
+      endpoint: this.endpoint,
+      apiKey,
+      apiVersion: this.apiVersion || DEFAULT_AZURE_API_VERSION,
+      timeout: 60000,
+      maxRetries: 0, // Retries are handled by RetryAdapter
+      ...this.clientOptions
+    });
+  }
+
+  protected initializeClient(): void {
+    // Called by the parent constructor before the endpoint is known
+    if (!this.apiKey || !this.endpoint) {
+      this.client = null;
+      return;
+    }
+
+    try {
+      this.client = this.createClient(this.apiKey);
+      console.log(`Azure OpenAI client initialized for ${this.endpoint}`);
+    } catch (error) {
+      console.error("Failed to initialize Azure OpenAI client:", error);
+      this.client = null;
+    }
+  }
+
+  getAvailableModels(): string[] {
+    const deployments = Object.keys(this.deployments || {});
+    return deployments.length > 0 ? deployments : [this.model];
+  }
+
+  /**
+   * The mapped deployments. Listing them needs management API access,
+   * which an API key doesn't grant, so they come from the settings.
+   */
+  async listModels(): Promise<DiscoveredModel[]> {
+    return this.getAvailableModels()
+      .filter(Boolean)
+      .map(deployment => describeDeployment(deployment, this.deployments));
+  }
+
+  async testApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
+    if (!this.endpoint) {
+      return { valid: false, error: "Enter the endpoint of your Azure OpenAI resource." };
+    }
+
+    try {
+      await this.createClient(apiKey).models.list();
+      return { valid: true };
+    } catch (error: any) {
+      console.error("Azure OpenAI key test failed:", error);
+
+      if (error.status === 401 || error.status === 403) {
+        return { valid: false, error: "Invalid API key for this Azure OpenAI resource." };
+      }
+      if (error.status === 404) {
+        return {
+          valid: false,
+          error: `No Azure OpenAI API at ${this.endpoint} for API version ${this.apiVersion}. Check the endpoint and API version.`
+        };
+      }
+      return {
+        valid: false,
+        error: error.message ? `Error: ${error.message}` : `Could not reach ${this.endpoint}`
+      };
+    }
+  }
+
+  supportsVision(): boolean {
+    return describeDeployment(this.model, this.deployments).supportsVision ?? true;
+  }
+}
+
+/**
+ * Factory function for creating Azure OpenAI adapters
+ */
+export const createAzureOpenAIAdapter = (
+  endpoint: string,
+  apiKey: string,
+  deployment: string,
+  apiVersion?: string,
+  deployments?: Record<string, string>,
+  network?: NetworkOptions
+): ModelAdapter => {
+  return new AzureOpenAIAdapter(endpoint, apiKey, deployment, apiVersion, deployments, network);
+};
@@ -6,34 +6,15 @@ import {
   ModelMessage,
   ModelRequestOptions,
   ModelResponse,
-  MessageContent
+  ModelStreamCallback,
+  MessageContent,
+  DiscoveredModel
 } from "./ModelInterface";
+import { toModelError } from "./ModelErrors";
+import { modelRegistry } from "./ModelRegistry";
+import { getClientOptions, NetworkOptions } from "./NetworkOptions";
 
-/**
- * Available Claude models with their capabilities
- */
-const CLAUDE_MODELS = {
-  "claude-3-opus-20240229": {
-    maxTokens: 200000,
-    supportsVision: true,
-    description: "Most powerful Claude model"
-  },
-  "claude-3-sonnet-20240229": {
-    maxTokens: 200000,
-    supportsVision: true,
-    description: "Great balance of intelligence and speed"
-  },
-  "claude-3-haiku-20240307": {
-    maxTokens: 200000,
-    supportsVision: true,
-    description: "Fastest Claude model, good for quick responses"
-  },
-  "claude-3-5-sonnet-20240620": { 
-    maxTokens: 200000,
-    supportsVision: true,
-    description: "Latest Claude with improved capabilities"
-  }
-};
+const CLAUDE_BASE_URL = "https://api.anthropic.com";
 
 /**
  * Claude (Anthropic) implementation of the ModelAdapter interface
@@ -43,19 +24,29 @@ export class ClaudeAdapter implements ModelAdapter {
   private client: Anthropic | null = null;
   private apiKey: string;
   private model: string;
+  // Proxy agent and timeout for every client this adapter creates
+  private clientOptions: ReturnType<typeof getClientOptions>;
 
-  constructor(apiKey: string, model: string = "claude-3-sonnet-20240229") {
+  constructor(
+    apiKey: string,
+    model: string = "claude-3-sonnet-20240229",
+    network?: NetworkOptions
+  ) {
     this.apiKey = apiKey;
     this.model = this.validateModel(model);
+    this.clientOptions = getClientOptions(CLAUDE_BASE_URL, network);
     this.initializeClient();
   }
 
   private validateModel(model: string): string {
-    if (Object.keys(CLAUDE_MODELS).includes(model)) {
-      return model;
+    if (!model) {
+      return "claude-3-sonnet-20240229";
     }
-    console.warn(`Invalid Claude model: ${model}. Defaulting to claude-3-sonnet-20240229`);
-    return "claude-3-sonnet-20240229";
+    if (!modelRegistry.isKnownModel("claude", model)) {
+      // Newer models work without a code change; capabilities are inferred
+      console.warn(`Claude model ${model} is not in the catalog, using it as-is`);
+    }
+    return model;
   }
 
   private initializeClient(): void {
@@ -67,6 +58,8 @@ export class ClaudeAdapter implements ModelAdapter {
     try {
       this.client = new Anthropic({
         apiKey: this.apiKey,
+        maxRetries: 0, // Retries are handled by RetryAdapter
+        ...this.clientOptions
       });
       console.log("Claude client initialized successfully");
     } catch (error) {
@@ -76,7 +69,26 @@ export class ClaudeAdapter implements ModelAdapter {
   }
 
   getAvailableModels(): string[] {
-    return Object.keys(CLAUDE_MODELS);
+    return modelRegistry.getModels("claude").map(model => model.id);
+  }
+
+  /**
+   * List models from the Anthropic /v1/models endpoint
+   */
+  async listModels(): Promise<DiscoveredModel[]> {
+    if (!this.client) {
+      throw new Error("Claude client not initialized");
+    }
+
+    // This SDK version has no typed models resource, so call it directly
+    const page = await this.client.get<unknown, { data: Array<{ id: string; display_name?: string }> }>(
+      "/v1/models",
+      { query: { limit: 100 } }
+    );
+    return page.data.map(model => ({
+      id: model.id,
+      name: model.display_name
+    }));
   }
 
   getCurrentModel(): string {
@@ -102,7 +114,7 @@ export class ClaudeAdapter implements ModelAdapter {
 
   async testApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
     try {
-      const tempClient = new Anthropic({ apiKey });
+      const tempClient = new Anthropic({ apiKey, ...this.clientOptions });
       
       // Make a simple API call to test the key
       await tempClient.messages.create({
@@ -134,7 +146,7 @@ export class ClaudeAdapter implements ModelAdapter {
   /**
    * Convert our model messages to Claude format
    */
-  private convertToClaudeMessages(messages: ModelMessage[]): any[] {
+  private convertToClaudeMessages(messages: ModelMessage[]): { messages: any[]; system: string } {
     const claudeMessages: any[] = [];
 
     let systemPrompt = "";
@@ -189,6 +201,38 @@ export class ClaudeAdapter implements ModelAdapter {
     };
   }
 
+  /**
+   * Map Anthropic API errors to the adapter's error messages
+   */
+  private handleRequestError(error: any): never {
+    throw toModelError(error, this.provider);
+  }
+
+  /**
+   * Structured requests force a single tool call whose input is the
+   * response object. This SDK version has no typed tool support, so the
+   * fields are passed through untyped.
+   */
+  private getToolOptions(options?: ModelRequestOptions): any {
+    if (!options?.responseSchema) return {};
+    const { name, schema } = options.responseSchema;
+    return {
+      tools: [{ name, description: `Respond with the ${name} object`, input_schema: schema }],
+      tool_choice: { type: "tool", name }
+    };
+  }
+
+  /**
+   * Response text, or the forced tool call's input as JSON
+   */
+  private getResponseText(content: any[], options?: ModelRequestOptions): string {
+    if (options?.responseSchema) {
+      const toolUse = content.find(block => block.type === "tool_use");
+      if (toolUse) return JSON.stringify(toolUse.input);
+    }
+    return content.filter(block => block.type === "text").map(block => block.text).join("");
+  }
+
   async complete(
     messages: ModelMessage[],
     options?: ModelRequestOptions
@@ -200,16 +244,20 @@ export class ClaudeAdapter implements ModelAdapter {
     try {
       const { messages: claudeMessages, system } = this.convertToClaudeMessages(messages);
       
-      const response = await this.client.messages.create({
-        model: this.model,
-        system: system,
-        messages: claudeMessages,
-        max_tokens: options?.maxTokens || 4000,
-        temperature: options?.temperature ?? 0.7,
-      });
+      const response = await this.client.messages.create(
+        {
+          model: this.model,
+          system: system,
+          messages: claudeMessages,
+          max_tokens: options?.maxTokens || 4000,
+          temperature: options?.temperature ?? 0.7,
+          ...this.getToolOptions(options)
+        },
+        { signal: options?.signal }
+      );
 
       return {
-        content: response.content[0].text,
+        content: this.getResponseText(response.content, options),
         usage: {
           // Anthropic provides usage stats differently, adapt as needed
           promptTokens: response.usage.input_tokens,
@@ -218,13 +266,7 @@ export class ClaudeAdapter implements ModelAdapter {
         }
       };
     } catch (error: any) {
-      if (error.status === 401) {
-        throw new Error("Invalid API key");
-      } else if (error.status === 429) {
-        throw new Error("Rate limit exceeded or insufficient quota");
-      } else {
-        throw error;
-      }
+      this.handleRequestError(error);
     }
   }
 
@@ -240,9 +282,73 @@ export class ClaudeAdapter implements ModelAdapter {
     return this.complete(messages, options);
   }
 
+  async completeStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    if (!this.client) {
+      throw new Error("Claude client not initialized");
+    }
+
+    try {
+      const { messages: claudeMessages, system } = this.convertToClaudeMessages(messages);
+
+      const stream = this.client.messages.stream(
+        {
+          model: this.model,
+          system: system,
+          messages: claudeMessages,
+          max_tokens: options?.maxTokens || 4000,
+          temperature: options?.temperature ?? 0.7,
+          ...this.getToolOptions(options)
+        },
+        { signal: options?.signal }
+      );
+
+      stream.on('text', (delta, snapshot) => onToken(delta, snapshot));
+
+      // The stream helper doesn't accumulate tool input, so collect the
+      // partial JSON from the raw events
+      let toolInput = "";
+      stream.on('streamEvent', (event: any) => {
+        if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+          toolInput += event.delta.partial_json;
+          onToken(event.delta.partial_json, toolInput);
+        }
+      });
+
+      const response = await stream.finalMessage();
+
+      return {
+        content: options?.responseSchema && toolInput
+          ? toolInput
+          : this.getResponseText(response.content, options),
+        usage: {
+          promptTokens: response.usage.input_tokens,
+          completionTokens: response.usage.output_tokens,
+          totalTokens: response.usage.input_tokens + response.usage.output_tokens
+        }
+      };
+    } catch (error: any) {
+      this.handleRequestError(error);
+    }
+  }
+
+  async visionStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    if (!this.supportsVision()) {
+      throw new Error(`Model ${this.model} does not support vision capabilities`);
+    }
+
+    return this.completeStream(messages, onToken, options);
+  }
+
   supportsVision(): boolean {
-    const modelInfo = CLAUDE_MODELS[this.model as keyof typeof CLAUDE_MODELS];
-    return modelInfo ? modelInfo.supportsVision : false;
+    return modelRegistry.getModel("claude", this.model).supportsVision;
   }
 }
 
@@ -251,7 +357,8 @@ export class ClaudeAdapter implements ModelAdapter {
  */
 export const createClaudeAdapter = (
   apiKey: string,
-  model: string = "claude-3-sonnet-20240229"
+  model: string = "claude-3-sonnet-20240229",
+  network?: NetworkOptions
 ): ModelAdapter => {
-  return new ClaudeAdapter(apiKey, model);
+  return new ClaudeAdapter(apiKey, model, network);
 };
\ No newline at end of file
@@ -0,0 +1,173 @@
+// FallbackAdapter.ts - Chains several adapters and fails over between them
+
+import {
+  DiscoveredModel,
+  ModelAdapter,
+  ModelMessage,
+  ModelRequestOptions,
+  ModelResponse,
+  ModelStreamCallback
+} from "./ModelInterface";
+import { QuotaExceededError, toModelError } from "./ModelErrors";
+
+/**
+ * Called when a provider fails and the request moves to the next one
+ */
+export type FailoverCallback = (
+  failed: ModelAdapter,
+  next: ModelAdapter,
+  error: any
+) => void;
+
+/**
+ * Whether an error should trigger failover to the next provider.
+ * Anything transient for one provider (rate limits, server errors,
+ * timeouts) or an exhausted quota can be served elsewhere; auth and
+ * request errors are not.
+ */
+export function isFailoverError(error: any): boolean {
+  const modelError = toModelError(error);
+  return modelError.retryable || modelError instanceof QuotaExceededError;
+}
+
+/**
+ * ModelAdapter that tries an ordered list of adapters, moving to the next
+ * one when a request fails with a failover error. The response records
+ * which provider and model actually served it.
+ */
+export class FallbackAdapter implements ModelAdapter {
+  private adapters: ModelAdapter[];
+  private onFailover?: FailoverCallback;
+
+  constructor(adapters: ModelAdapter[], onFailover?: FailoverCallback) {
+    if (adapters.length === 0) {
+      throw new Error("FallbackAdapter requires at least one adapter");
+    }
+    this.adapters = adapters;
+    this.onFailover = onFailover;
+  }
+
+  /**
+   * The primary adapter; configuration calls are delegated to it
+   */
+  private get primary(): ModelAdapter {
+    return this.adapters[0];
+  }
+
+  get provider(): string {
+    return this.primary.provider;
+  }
+
+  getAvailableModels(): string[] {
+    return this.primary.getAvailableModels();
+  }
+
+  listModels(): Promise<DiscoveredModel[]> {
+    return this.primary.listModels();
+  }
+
+  getCurrentModel(): string {
+    return this.primary.getCurrentModel();
+  }
+
+  setModel(model: string): void {
+    this.primary.setModel(model);
+  }
+
+  setApiKey(apiKey: string): void {
+    this.primary.setApiKey(apiKey);
+  }
+
+  getApiKey(): string {
+    return this.primary.getApiKey();
+  }
+
+  testApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
+    return this.primary.testApiKey(apiKey);
+  }
+
+  /**
+   * Run a request against each adapter in turn until one succeeds
+   */
+  private async withFailover(
+    adapters: ModelAdapter[],
+    request: (adapter: ModelAdapter) => Promise<ModelResponse>,
+    signal?: AbortSignal
+  ): Promise<ModelResponse> {
+    if (adapters.length === 0) {
+      throw new Error("No configured provider supports this request");
+    }
+
+    let lastError: any;
+
+    for (let i = 0; i < adapters.length; i++) {
+      const adapter = adapters[i];
+      try {
+        const response = await request(adapter);
+        return {
+          ...response,
+          provider: adapter.provider,
+          model: adapter.getCurrentModel()
+        };
+      } catch (error: any) {
+        lastError = error;
+        const next = adapters[i + 1];
+
+        // Never fail over a cancelled request or a non-transient error
+        if (signal?.aborted || !next || !isFailoverError(error)) {
+          throw error;
+        }
+
+        console.warn(`${adapter.provider} failed, falling back to ${next.provider}:`, error?.message);
+        this.onFailover?.(adapter, next, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  complete(messages: ModelMessage[], options?: ModelRequestOptions): Promise<ModelResponse> {
+    return this.withFailover(
+      this.adapters,
+      adapter => adapter.complete(messages, options),
+      options?.signal
+    );
+  }
+
+  vision(messages: ModelMessage[], options?: ModelRequestOptions): Promise<ModelResponse> {
+    return this.withFailover(
+      this.adapters.filter(adapter => adapter.supportsVision()),
+      adapter => adapter.vision(messages, options),
+      options?.signal
+    );
+  }
+
+  completeStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    // Each attempt streams a fresh snapshot, replacing any partial output
+    return this.withFailover(
+      this.adapters,
+      adapter => adapter.completeStream(messages, onToken, options),
+      options?.signal
+    );
+  }
+
+  visionStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    return this.withFailover(
+      this.adapters.filter(adapter => adapter.supportsVision()),
+      adapter => adapter.visionStream(messages, onToken, options),
+      options?.signal
+    );
+  }
+
+  supportsVision(): boolean {
+    return this.adapters.some(adapter => adapter.supportsVision());
+  }
+}
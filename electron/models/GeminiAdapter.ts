@@ -0,0 +1,395 @@
+// GeminiAdapter.ts - Google Gemini implementation of the model adapter
+
+import {
+  ModelAdapter,
+  ModelMessage,
+  ModelRequestOptions,
+  ModelResponse,
+  ModelStreamCallback,
+  DiscoveredModel,
+  isTextContent
+} from "./ModelInterface";
+import { AuthenticationError, toModelError } from "./ModelErrors";
+import { modelRegistry } from "./ModelRegistry";
+import { fetchWithOptions, NetworkOptions } from "./NetworkOptions";
+
+/**
+ * Default Gemini REST endpoint. Can be overridden (e.g. to point the
+ * adapter at a local HTTP stand-in during testing).
+ */
+export const DEFAULT_GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+/**
+ * Text or an inline image in a Gemini request
+ */
+type GeminiPart =
+  | { text: string }
+  | { inline_data: { mime_type: string; data: string } };
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+/**
+ * Body of a generateContent or streamGenerateContent request
+ */
+interface GeminiRequest {
+  contents: GeminiContent[];
+  systemInstruction?: { parts: GeminiPart[] };
+  generationConfig: {
+    maxOutputTokens: number;
+    temperature: number;
+    responseMimeType?: string;
+  };
+}
+
+/**
+ * The parts of a (streamed) generateContent response the adapter reads
+ */
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+/**
+ * Google Gemini implementation of the ModelAdapter interface.
+ * Talks to the Gemini REST API directly using fetch.
+ */
+export class GeminiAdapter implements ModelAdapter {
+  readonly provider = "Gemini";
+  private apiKey: string;
+  private model: string;
+  private baseUrl: string;
+  private network: NetworkOptions;
+
+  constructor(
+    apiKey: string,
+    model: string = "gemini-1.5-pro",
+    baseUrl: string = DEFAULT_GEMINI_BASE_URL,
+    network: NetworkOptions = {}
+  ) {
+    this.apiKey = apiKey;
+    this.model = this.validateModel(model);
+    this.baseUrl = (baseUrl || DEFAULT_GEMINI_BASE_URL).replace(/\/+$/, "");
+    this.network = network;
+  }
+
+  private validateModel(model: string): string {
+    if (!model) {
+      return "gemini-1.5-pro";
+    }
+    if (!modelRegistry.isKnownModel("gemini", model)) {
+      // Newer models work without a code change; capabilities are inferred
+      console.warn(`Gemini model ${model} is not in the catalog, using it as-is`);
+    }
+    return model;
+  }
+
+  getAvailableModels(): string[] {
+    return modelRegistry.getModels("gemini").map(model => model.id);
+  }
+
+  /**
+   * List models that support generateContent, with their token limits
+   */
+  async listModels(): Promise<DiscoveredModel[]> {
+    const response = await this.request("GET", "/models?pageSize=1000");
+    const data = await response.json();
+
+    return (data.models || [])
+      .filter((model: any) => (model.supportedGenerationMethods || []).includes("generateContent"))
+      .map((model: any) => ({
+        id: String(model.name).replace(/^models\//, ""),
+        name: model.displayName,
+        description: model.description,
+        contextWindow: model.inputTokenLimit,
+        maxOutputTokens: model.outputTokenLimit
+      }));
+  }
+
+  getCurrentModel(): string {
+    return this.model;
+  }
+
+  setModel(model: string): void {
+    this.model = this.validateModel(model);
+  }
+
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey;
+  }
+
+  getApiKey(): string {
+    if (!this.apiKey) return "";
+    // Return masked API key for security
+    return `${this.apiKey.substring(0, 4)}...${this.apiKey.substring(
+      this.apiKey.length - 4
+    )}`;
+  }
+
+  async testApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
+    try {
+      await this.request("GET", "/models", undefined, apiKey);
+      return { valid: true };
+    } catch (error: any) {
+      console.error("API key test failed:", error);
+
+      let errorMessage = "Unknown error validating API key";
+
+      if (error.status === 400 || error.status === 401 || error.status === 403) {
+        errorMessage = "Invalid API key. Please check your key and try again.";
+      } else if (error.status === 429) {
+        errorMessage = "Rate limit exceeded. Your API key has reached its request limit or has insufficient quota.";
+      } else if (error.status === 500) {
+        errorMessage = "Gemini API server error. Please try again later.";
+      } else if (error.message) {
+        errorMessage = `Error: ${error.message}`;
+      }
+
+      return { valid: false, error: errorMessage };
+    }
+  }
+
+  /**
+   * Send a request to the Gemini REST API, throwing an error carrying the
+   * HTTP status on failure so callers can map it like SDK errors
+   */
+  private async request(
+    method: "GET" | "POST",
+    urlPath: string,
+    body?: any,
+    apiKey: string = this.apiKey,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const response = await fetchWithOptions(`${this.baseUrl}${urlPath}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": apiKey
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal
+    }, this.network);
+
+    if (!response.ok) {
+      let message = `Gemini API error (${response.status})`;
+      try {
+        const errorBody = await response.json();
+        message = errorBody?.error?.message || message;
+      } catch {
+        // Ignore non-JSON error bodies
+      }
+      const error: any = new Error(message);
+      error.status = response.status;
+      error.headers = response.headers;
+      throw error;
+    }
+
+    return response;
+  }
+
+  /**
+   * Convert our model messages to a Gemini generateContent request body.
+   * System messages become the systemInstruction; assistant turns use the
+   * "model" role and images are sent as inline data parts.
+   */
+  private buildRequestBody(messages: ModelMessage[], options?: ModelRequestOptions): GeminiRequest {
+    const systemText = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => typeof msg.content === 'string'
+        ? msg.content
+        : msg.content.filter(isTextContent).map(item => item.text).join("\n"))
+      .join("\n");
+
+    const contents = messages
+      .filter(msg => msg.role !== 'system')
+      .map((msg): GeminiContent => {
+        const items = typeof msg.content === 'string'
+          ? [{ type: 'text' as const, text: msg.content }]
+          : msg.content;
+
+        const parts = items.map((item): GeminiPart => {
+          if (item.type === 'text') {
+            return { text: item.text };
+          }
+          // Split "data:<mime>;base64,<data>" into an inline data part
+          const match = item.image_url.url.match(/^data:([^;]+);base64,(.*)$/);
+          return {
+            inline_data: {
+              mime_type: match ? match[1] : 'image/png',
+              data: match ? match[2] : item.image_url.url
+            }
+          };
+        });
+
+        return {
+          role: msg.role === 'assistant' ? 'model' : 'user',
+          parts
+        };
+      });
+
+    return {
+      contents,
+      ...(systemText ? { systemInstruction: { parts: [{ text: systemText }] } } : {}),
+      generationConfig: {
+        maxOutputTokens: options?.maxTokens || 4000,
+        temperature: options?.temperature ?? 0.7,
+        // Gemini's responseSchema only takes an OpenAPI subset, so the schema
+        // itself is given in the prompt and validated by the caller
+        ...(options?.responseSchema ? { responseMimeType: "application/json" } : {})
+      }
+    };
+  }
+
+  private extractText(data: GeminiResponse): string {
+    const parts = data?.candidates?.[0]?.content?.parts || [];
+    return parts.map(part => part.text || "").join("");
+  }
+
+  private extractUsage(data: GeminiResponse): ModelResponse["usage"] {
+    if (!data?.usageMetadata) return undefined;
+    return {
+      promptTokens: data.usageMetadata.promptTokenCount,
+      completionTokens: data.usageMetadata.candidatesTokenCount,
+      totalTokens: data.usageMetadata.totalTokenCount
+    };
+  }
+
+  /**
+   * Map Gemini API errors to the adapter's error messages
+   */
+  private handleRequestError(error: any): never {
+    // Gemini reports bad keys as a 400 rather than a 401
+    if (/API key not valid/i.test(error.message || "")) {
+      throw new AuthenticationError("Invalid API key", { status: error.status, provider: this.provider, cause: error });
+    }
+    throw toModelError(error, this.provider);
+  }
+
+  async complete(
+    messages: ModelMessage[],
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    if (!this.apiKey) {
+      throw new Error("Gemini client not initialized");
+    }
+
+    try {
+      const response = await this.request(
+        "POST",
+        `/models/${this.model}:generateContent`,
+        this.buildRequestBody(messages, options),
+        this.apiKey,
+        options?.signal
+      );
+      const data: GeminiResponse = await response.json();
+
+      return {
+        content: this.extractText(data),
+        usage: this.extractUsage(data)
+      };
+    } catch (error: any) {
+      this.handleRequestError(error);
+    }
+  }
+
+  async vision(
+    messages: ModelMessage[],
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    if (!this.supportsVision()) {
+      throw new Error(`Model ${this.model} does not support vision capabilities`);
+    }
+
+    // Gemini accepts images in the same generateContent request as text
+    return this.complete(messages, options);
+  }
+
+  async completeStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    if (!this.apiKey) {
+      throw new Error("Gemini client not initialized");
+    }
+
+    try {
+      const response = await this.request(
+        "POST",
+        `/models/${this.model}:streamGenerateContent?alt=sse`,
+        this.buildRequestBody(messages, options),
+        this.apiKey,
+        options?.signal
+      );
+
+      let content = "";
+      let usage: ModelResponse["usage"];
+      let buffer = "";
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+
+      const handleLine = (line: string) => {
+        if (!line.startsWith("data:")) return;
+        const data: GeminiResponse = JSON.parse(line.slice(5).trim());
+        const delta = this.extractText(data);
+        if (delta) {
+          content += delta;
+          onToken(delta, content);
+        }
+        usage = this.extractUsage(data) || usage;
+      };
+
+      // Server-sent events: each "data:" line holds a partial response
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        lines.forEach(handleLine);
+      }
+      // The last event may end without a newline; it often carries the usage
+      buffer += decoder.decode();
+      buffer.split("\n").forEach(handleLine);
+
+      return { content, usage };
+    } catch (error: any) {
+      this.handleRequestError(error);
+    }
+  }
+
+  async visionStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    if (!this.supportsVision()) {
+      throw new Error(`Model ${this.model} does not support vision capabilities`);
+    }
+
+    return this.completeStream(messages, onToken, options);
+  }
+
+  supportsVision(): boolean {
+    return modelRegistry.getModel("gemini", this.model).supportsVision;
+  }
+}
+
+/**
+ * Factory function for creating Gemini adapters
+ */
+export const createGeminiAdapter = (
+  apiKey: string,
+  model: string = "gemini-1.5-pro",
+  baseUrl?: string,
+  network?: NetworkOptions
+): ModelAdapter => {
+  return new GeminiAdapter(apiKey, model, baseUrl, network);
+};
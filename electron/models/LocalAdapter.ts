@@ -0,0 +1,204 @@
+// LocalAdapter.ts - OpenAI-compatible local endpoint (Ollama, llama.cpp, LM Studio)
+
+import { OpenAI } from "openai";
+import {
+  DiscoveredModel,
+  ModelAdapter,
+  ModelMessage,
+  ModelRequestOptions,
+  ModelResponse,
+  ModelStreamCallback
+} from "./ModelInterface";
+import { OpenAIAdapter } from "./OpenAIAdapter";
+import { ModelProvider } from "./ModelFactory";
+import { getClientOptions, NetworkOptions } from "./NetworkOptions";
+
+/**
+ * Default endpoint and model, matching a stock Ollama install
+ */
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+export const DEFAULT_LOCAL_MODEL = "llama3.2-vision";
+
+/**
+ * Normalize a user-entered host into an OpenAI-compatible base URL.
+ * "http://localhost:11434" and "http://localhost:11434/v1/" both become
+ * "http://localhost:11434/v1".
+ */
+export function normalizeLocalBaseUrl(baseUrl: string): string {
+  const trimmed = (baseUrl || DEFAULT_LOCAL_BASE_URL).trim().replace(/\/+$/, "");
+  return /\/v1$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+/**
+ * How structured requests ask the server for JSON, from strict schema down
+ * to none at all (the schema is in the prompt either way)
+ */
+type ResponseFormatSupport = "json_schema" | "json_object" | "none";
+
+/**
+ * Whether a request failed because the server doesn't take the
+ * response_format it was sent. Other bad requests (context too long, an
+ * unknown model) must not lower the format, so only errors that name it
+ * count.
+ */
+function isResponseFormatRejection(error: any): boolean {
+  const cause = error?.cause;
+  const details = [error?.message, cause?.message, cause?.param, cause?.error?.param]
+    .filter(Boolean)
+    .join(" ");
+  return /response_format|json_schema|json_object/i.test(details);
+}
+
+/**
+ * Adapter for any server exposing the OpenAI chat completions API.
+ * Reuses the OpenAI request/streaming code with a custom base URL; the
+ * API key is optional since most local servers ignore it.
+ */
+export class LocalAdapter extends OpenAIAdapter {
+  readonly provider = "Local";
+  // Lowered the first time the server rejects a format, for this server
+  private responseFormatSupport: ResponseFormatSupport = "json_schema";
+
+  constructor(
+    baseUrl: string = DEFAULT_LOCAL_BASE_URL,
+    apiKey: string = "",
+    model: string = DEFAULT_LOCAL_MODEL,
+    network?: NetworkOptions
+  ) {
+    const baseURL = normalizeLocalBaseUrl(baseUrl);
+    super(apiKey, model, { baseURL, ...getClientOptions(baseURL, network) });
+  }
+
+  protected get catalogProvider(): ModelProvider {
+    return "local";
+  }
+
+  protected supportsStructuredOutputs(): boolean {
+    return this.responseFormatSupport === "json_schema";
+  }
+
+  protected getResponseFormat(options?: ModelRequestOptions): { response_format?: any } {
+    return this.responseFormatSupport === "none" ? {} : super.getResponseFormat(options);
+  }
+
+  /**
+   * Send a request, stepping down from a strict schema to JSON mode to
+   * plain prompting while the server rejects the response_format. Older
+   * llama.cpp, LM Studio and vLLM builds take only some of them.
+   */
+  private async withResponseFormatFallback(
+    options: ModelRequestOptions | undefined,
+    send: () => Promise<ModelResponse>
+  ): Promise<ModelResponse> {
+    for (;;) {
+      try {
+        return await send();
+      } catch (error) {
+        if (
+          !options?.responseSchema ||
+          this.responseFormatSupport === "none" ||
+          !isResponseFormatRejection(error)
+        ) {
+          throw error;
+        }
+        this.responseFormatSupport =
+          this.responseFormatSupport === "json_schema" ? "json_object" : "none";
+        console.warn(
+          `${this.clientOptions.baseURL} rejected the response format, retrying with ${this.responseFormatSupport === "none" ? "the schema in the prompt only" : "JSON mode"}`
+        );
+      }
+    }
+  }
+
+  complete(messages: ModelMessage[], options?: ModelRequestOptions): Promise<ModelResponse> {
+    return this.withResponseFormatFallback(options, () => super.complete(messages, options));
+  }
+
+  completeStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    return this.withResponseFormatFallback(options, () =>
+      super.completeStream(messages, onToken, options)
+    );
+  }
+
+  protected validateModel(model: string): string {
+    // Any model the server exposes is valid, so only guard against empty ids
+    return model || DEFAULT_LOCAL_MODEL;
+  }
+
+  protected initializeClient(): void {
+    try {
+      this.client = new OpenAI({
+        // The SDK requires a key even when the server does not
+        apiKey: this.apiKey || "local",
+        timeout: 120000, // Local models can be slow to load on first request
+        maxRetries: 0,
+        ...this.clientOptions
+      });
+      console.log(`Local model client initialized for ${this.clientOptions.baseURL}`);
+    } catch (error) {
+      console.error("Failed to initialize local model client:", error);
+      this.client = null;
+    }
+  }
+
+  getAvailableModels(): string[] {
+    const models = super.getAvailableModels();
+    return models.length > 0 ? models : [this.model];
+  }
+
+  /**
+   * Query the server's /v1/models endpoint; every model it serves is usable
+   */
+  async listModels(): Promise<DiscoveredModel[]> {
+    if (!this.client) {
+      throw new Error("Local model client not initialized");
+    }
+
+    const page = await this.client.models.list();
+    return page.data.map((model) => ({
+      id: model.id,
+      description: "Served by local endpoint",
+      pricing: { input: 0, output: 0 }
+    }));
+  }
+
+  async testApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
+    try {
+      const tempClient = new OpenAI({
+        apiKey: apiKey || "local",
+        baseURL: this.clientOptions.baseURL,
+        httpAgent: this.clientOptions.httpAgent,
+        timeout: this.clientOptions.timeout || 10000,
+        maxRetries: 0
+      });
+      await tempClient.models.list();
+      return { valid: true };
+    } catch (error: any) {
+      console.error("Local endpoint test failed:", error);
+
+      if (error.status === 401) {
+        return { valid: false, error: "The local endpoint rejected the API key." };
+      }
+      return {
+        valid: false,
+        error: `Could not reach ${this.clientOptions.baseURL}. Make sure the server is running.`
+      };
+    }
+  }
+}
+
+/**
+ * Factory function for creating local endpoint adapters
+ */
+export const createLocalAdapter = (
+  baseUrl: string = DEFAULT_LOCAL_BASE_URL,
+  apiKey: string = "",
+  model: string = DEFAULT_LOCAL_MODEL,
+  network?: NetworkOptions
+): ModelAdapter => {
+  return new LocalAdapter(baseUrl, apiKey, model, network);
+};
@@ -0,0 +1,178 @@
+// ModelErrors.ts - Typed errors shared by all model adapters
+
+/**
+ * Base class for errors raised by model adapters. `retryable` tells the
+ * retry and fallback layers whether trying again can succeed.
+ */
+export class ModelError extends Error {
+  readonly retryable: boolean = false;
+  readonly status?: number;
+  readonly provider?: string;
+
+  constructor(message: string, options: { status?: number; provider?: string; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.provider = options.provider;
+  }
+}
+
+/**
+ * The API key is missing, invalid or lacks access to the model
+ */
+export class AuthenticationError extends ModelError {}
+
+/**
+ * The request itself was rejected (bad parameters, unsupported input)
+ */
+export class InvalidRequestError extends ModelError {}
+
+/**
+ * The account has no remaining quota or credits; retrying won't help
+ */
+export class QuotaExceededError extends ModelError {}
+
+/**
+ * Too many requests; the server may say how long to wait via Retry-After
+ */
+export class RateLimitError extends ModelError {
+  readonly retryable = true;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { status?: number; provider?: string; cause?: unknown; retryAfterMs?: number } = {}
+  ) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The provider returned a 5xx or reported itself overloaded
+ */
+export class ServerError extends ModelError {
+  readonly retryable = true;
+}
+
+/**
+ * The request timed out or the connection failed
+ */
+export class NetworkError extends ModelError {
+  readonly retryable = true;
+}
+
+/**
+ * A structured response was not valid JSON or didn't match its schema,
+ * even after asking the model to repair it
+ */
+export class InvalidResponseError extends ModelError {
+  readonly issues: string[];
+
+  constructor(message: string, options: { provider?: string; cause?: unknown; issues?: string[] } = {}) {
+    super(message, options);
+    this.issues = options.issues || [];
+  }
+}
+
+/**
+ * The request was cancelled through its AbortSignal
+ */
+export class AbortedError extends ModelError {
+  constructor(message: string = "Request was canceled", options: { provider?: string; cause?: unknown } = {}) {
+    super(message, options);
+  }
+}
+
+const NETWORK_ERROR_CODES = ["ETIMEDOUT", "ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "EAI_AGAIN"];
+
+// Error codes of 429s that mean the account is out of credits rather than
+// sending too fast (OpenAI and Azure). Gemini reports both as
+// RESOURCE_EXHAUSTED, so its 429s are always treated as rate limits.
+const QUOTA_ERROR_CODES = ["insufficient_quota", "billing_hard_limit_reached"];
+
+/**
+ * Read a header from the shapes SDK and fetch errors use: a plain object,
+ * a Headers instance, or nothing
+ */
+function getHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === "function") {
+    return headers.get(name) ?? undefined;
+  }
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key ? headers[key] ?? undefined : undefined;
+}
+
+/**
+ * Parse Retry-After (seconds or an HTTP date) and OpenAI's retry-after-ms
+ * into milliseconds
+ */
+export function parseRetryAfter(headers: any): number | undefined {
+  const retryAfterMs = Number(getHeader(headers, "retry-after-ms"));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = getHeader(headers, "retry-after");
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Convert an SDK, fetch or HTTP error into the typed hierarchy. Errors
+ * that are already ModelErrors pass through unchanged.
+ */
+export function toModelError(error: any, provider?: string): ModelError {
+  if (error instanceof ModelError) {
+    return error;
+  }
+
+  const status: number | undefined = error?.status ?? error?.response?.status;
+  const headers = error?.headers ?? error?.response?.headers;
+  const message: string = error?.message || "Unknown model error";
+  const code: string = error?.code || error?.error?.code || error?.error?.type || "";
+  const name: string = error?.name || "";
+  const options = { status, provider, cause: error };
+
+  if (name === "AbortError" || /UserAbort/.test(name)) {
+    return new AbortedError("Request was canceled", { provider, cause: error });
+  }
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError("Invalid API key", options);
+  }
+  if (status === 429) {
+    // OpenAI reports exhausted credits as a 429 that will never succeed
+    if (QUOTA_ERROR_CODES.includes(code)) {
+      return new QuotaExceededError("Insufficient quota or credits", options);
+    }
+    return new RateLimitError("Rate limit exceeded", {
+      ...options,
+      retryAfterMs: parseRetryAfter(headers)
+    });
+  }
+  if (status === 408) {
+    return new NetworkError("Request timed out", options);
+  }
+  if (status === 529 || (typeof status === "number" && status >= 500)) {
+    return new ServerError(`${provider || "Model"} server error (${status})`, options);
+  }
+  if (typeof status === "number" && status >= 400) {
+    return new InvalidRequestError(message, options);
+  }
+
+  const errorCode = error?.code || error?.cause?.code || "";
+  if (/Timeout|Connection/i.test(name) || NETWORK_ERROR_CODES.includes(errorCode)) {
+    return new NetworkError(message, options);
+  }
+
+  return new ModelError(message, options);
+}
@@ -1,17 +1,26 @@
 // ModelFactory.ts - Factory for creating model adapters
 
-import { ModelAdapter } from './ModelInterface';
+import { ModelAdapter, ModelInfo } from './ModelInterface';
+import { modelRegistry } from './ModelRegistry';
 import { createOpenAIAdapter } from './OpenAIAdapter';
 import { createClaudeAdapter } from './ClaudeAdapter';
+import { createLocalAdapter, DEFAULT_LOCAL_MODEL } from './LocalAdapter';
+import { createGeminiAdapter } from './GeminiAdapter';
+import { createAzureOpenAIAdapter } from './AzureOpenAIAdapter';
+import { NetworkOptions } from './NetworkOptions';
 
 // Provider type for configuration
-export type ModelProvider = 'openai' | 'claude';
+export type ModelProvider = 'openai' | 'claude' | 'gemini' | 'local' | 'azure';
 
 // Model configuration
 export interface ModelConfig {
   provider: ModelProvider;
   apiKey: string;
   model: string;
+  baseUrl?: string; // Endpoint override for local servers and Gemini stand-ins, or the Azure resource endpoint
+  apiVersion?: string; // Azure OpenAI API version
+  deployments?: Record<string, string>; // Azure deployment name -> OpenAI model id
+  network?: NetworkOptions; // Proxy, CA bundle and timeout
   isDefault?: boolean;
 }
 
@@ -27,6 +36,18 @@ export function getAvailableProviders(): Record<string, { name: string, descript
     'claude': { 
       name: 'Claude', 
       description: 'Anthropic models with strong reasoning and long contexts' 
+    },
+    'gemini': { 
+      name: 'Gemini', 
+      description: 'Google models with large multimodal context windows' 
+    },
+    'local': { 
+      name: 'Local', 
+      description: 'Any OpenAI-compatible server (Ollama, llama.cpp, LM Studio)' 
+    },
+    'azure': {
+      name: 'Azure OpenAI',
+      description: 'OpenAI models deployed in your Azure tenant'
     }
   };
 }
@@ -37,9 +58,22 @@ export function getAvailableProviders(): Record<string, { name: string, descript
 export function createModelAdapter(config: ModelConfig): ModelAdapter {
   switch(config.provider) {
     case 'openai':
-      return createOpenAIAdapter(config.apiKey, config.model);
+      return createOpenAIAdapter(config.apiKey, config.model, config.network);
     case 'claude':
-      return createClaudeAdapter(config.apiKey, config.model);
+      return createClaudeAdapter(config.apiKey, config.model, config.network);
+    case 'gemini':
+      return createGeminiAdapter(config.apiKey, config.model, config.baseUrl, config.network);
+    case 'local':
+      return createLocalAdapter(config.baseUrl, config.apiKey, config.model, config.network);
+    case 'azure':
+      return createAzureOpenAIAdapter(
+        config.baseUrl || "",
+        config.apiKey,
+        config.model,
+        config.apiVersion,
+        config.deployments,
+        config.network
+      );
     default:
       throw new Error(`Unsupported model provider: ${config.provider}`);
   }
@@ -54,33 +88,21 @@ export function getDefaultModel(provider: ModelProvider): string {
       return 'gpt-4o';
     case 'claude':
       return 'claude-3-sonnet-20240229';
+    case 'gemini':
+      return 'gemini-1.5-pro';
+    case 'local':
+      return DEFAULT_LOCAL_MODEL;
+    case 'azure':
+      // Deployment names are the tenant's own; this matches one named after its model
+      return 'gpt-4o';
     default:
       throw new Error(`Unsupported model provider: ${provider}`);
   }
 }
 
 /**
- * Get all available models for a provider
+ * Get all available models for a provider from the model registry
  */
-export function getAvailableModels(provider: ModelProvider): 
-  { id: string, name: string, description: string }[] {
-  
-  switch(provider) {
-    case 'openai':
-      return [
-        { id: 'gpt-4o', name: 'GPT-4o', description: 'Best overall performance, supports images' },
-        { id: 'gpt-4o-mini', name: 'GPT-4o Mini', description: 'Faster, more cost-effective option with vision' },
-        { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', description: 'Advanced capabilities with vision support' },
-        { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', description: 'Fast and efficient for text-only tasks' }
-      ];
-    case 'claude':
-      return [
-        { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus', description: 'Most powerful Claude model' },
-        { id: 'claude-3-sonnet-20240229', name: 'Claude 3 Sonnet', description: 'Great balance of intelligence and speed' },
-        { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku', description: 'Fastest Claude model, good for quick responses' },
-        { id: 'claude-3-5-sonnet-20240620', name: 'Claude 3.5 Sonnet', description: 'Latest Claude with improved capabilities' }
-      ];
-    default:
-      return [];
-  }
-}
\ No newline at end of file
+export function getAvailableModels(provider: ModelProvider): ModelInfo[] {
+  return modelRegistry.getModels(provider);
+}
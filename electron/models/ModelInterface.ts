@@ -7,8 +7,23 @@ export interface ModelRequestOptions {
     signal?: AbortSignal;
     maxTokens?: number;
     temperature?: number;
+    /**
+     * Ask for a JSON object matching this schema. Adapters use the
+     * provider's native structured output where it has one; the response
+     * content is then the JSON text.
+     */
+    responseSchema?: ResponseSchema;
   }
-  
+
+  /**
+   * JSON schema for a structured response, named for providers that need
+   * one (OpenAI's json_schema format, Claude's tool name)
+   */
+  export interface ResponseSchema {
+    name: string;
+    schema: Record<string, any>;
+  }
+
   /**
    * Interface for model messages (similar to OpenAI's format)
    */
@@ -33,6 +48,9 @@ export interface ModelRequestOptions {
   }
   
   export type MessageContent = TextContent | ImageContent;
+
+  export const isTextContent = (item: MessageContent): item is TextContent =>
+    item.type === 'text';
   
   /**
    * Response from AI model
@@ -44,8 +62,40 @@ export interface ModelRequestOptions {
       completionTokens?: number;
       totalTokens?: number;
     };
+    /**
+     * Provider and model that served the request, when it may differ from
+     * the configured one (e.g. after a fallback)
+     */
+    provider?: string;
+    model?: string;
   }
   
+  /**
+   * Catalog entry describing a model and its capabilities
+   */
+  export interface ModelInfo {
+    id: string;
+    name: string;
+    description: string;
+    supportsVision: boolean;
+    contextWindow?: number;
+    maxOutputTokens?: number;
+    // USD per million tokens
+    pricing?: { input: number; output: number };
+  }
+  
+  /**
+   * Model returned by a provider's list-models endpoint. Only the id is
+   * guaranteed; the registry fills in the rest.
+   */
+  export type DiscoveredModel = Partial<ModelInfo> & { id: string };
+  
+  /**
+   * Callback invoked for each chunk of a streamed response.
+   * `delta` is the newly received text, `snapshot` the full text so far.
+   */
+  export type ModelStreamCallback = (delta: string, snapshot: string) => void;
+  
   /**
    * Model adapter interface - all model implementations must follow this
    */
@@ -60,6 +110,11 @@ export interface ModelRequestOptions {
      */
     getAvailableModels(): string[];
     
+    /**
+     * Query the provider's list-models endpoint for the models it serves
+     */
+    listModels(): Promise<DiscoveredModel[]>;
+    
     /**
      * Get current model being used
      */
@@ -101,6 +156,25 @@ export interface ModelRequestOptions {
       options?: ModelRequestOptions
     ): Promise<ModelResponse>;
     
+    /**
+     * Send a completion request and stream partial output to onToken.
+     * Resolves with the full response once the stream completes.
+     */
+    completeStream(
+      messages: ModelMessage[],
+      onToken: ModelStreamCallback,
+      options?: ModelRequestOptions
+    ): Promise<ModelResponse>;
+    
+    /**
+     * Send a vision request and stream partial output to onToken
+     */
+    visionStream(
+      messages: ModelMessage[],
+      onToken: ModelStreamCallback,
+      options?: ModelRequestOptions
+    ): Promise<ModelResponse>;
+    
     /**
      * Check if this adapter supports vision/image input
      */
@@ -0,0 +1,271 @@
+// ModelRegistry.ts - Single catalog of models and their capabilities
+
+import fs from "node:fs";
+import path from "node:path";
+import { app } from "electron";
+import { DiscoveredModel, ModelAdapter, ModelInfo } from "./ModelInterface";
+import { ModelProvider } from "./ModelFactory";
+
+// How long a provider's discovered model list is trusted before refreshing
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Models we ship metadata for. Anything else the provider lists is added
+ * at runtime with inferred capabilities.
+ */
+const BUILTIN_MODELS: Record<ModelProvider, ModelInfo[]> = {
+  openai: [
+    {
+      id: "gpt-4o",
+      name: "GPT-4o",
+      description: "Best overall performance, supports images",
+      supportsVision: true,
+      contextWindow: 128000,
+      maxOutputTokens: 16384,
+      pricing: { input: 2.5, output: 10 }
+    },
+    {
+      id: "gpt-4o-mini",
+      name: "GPT-4o Mini",
+      description: "Faster, more cost-effective option with vision",
+      supportsVision: true,
+      contextWindow: 128000,
+      maxOutputTokens: 16384,
+      pricing: { input: 0.15, output: 0.6 }
+    },
+    {
+      id: "gpt-4-turbo",
+      name: "GPT-4 Turbo",
+      description: "Advanced capabilities with vision support",
+      supportsVision: true,
+      contextWindow: 128000,
+      maxOutputTokens: 4096,
+      pricing: { input: 10, output: 30 }
+    },
+    {
+      id: "gpt-3.5-turbo",
+      name: "GPT-3.5 Turbo",
+      description: "Fast and efficient for text-only tasks",
+      supportsVision: false,
+      contextWindow: 16385,
+      maxOutputTokens: 4096,
+      pricing: { input: 0.5, output: 1.5 }
+    }
+  ],
+  claude: [
+    {
+      id: "claude-3-opus-20240229",
+      name: "Claude 3 Opus",
+      description: "Most powerful Claude model",
+      supportsVision: true,
+      contextWindow: 200000,
+      maxOutputTokens: 4096,
+      pricing: { input: 15, output: 75 }
+    },
+    {
+      id: "claude-3-sonnet-20240229",
+      name: "Claude 3 Sonnet",
+      description: "Great balance of intelligence and speed",
+      supportsVision: true,
+      contextWindow: 200000,
+      maxOutputTokens: 4096,
+      pricing: { input: 3, output: 15 }
+    },
+    {
+      id: "claude-3-haiku-20240307",
+      name: "Claude 3 Haiku",
+      description: "Fastest Claude model, good for quick responses",
+      supportsVision: true,
+      contextWindow: 200000,
+      maxOutputTokens: 4096,
+      pricing: { input: 0.25, output: 1.25 }
+    },
+    {
+      id: "claude-3-5-sonnet-20240620",
+      name: "Claude 3.5 Sonnet",
+      description: "Latest Claude with improved capabilities",
+      supportsVision: true,
+      contextWindow: 200000,
+      maxOutputTokens: 8192,
+      pricing: { input: 3, output: 15 }
+    }
+  ],
+  gemini: [
+    {
+      id: "gemini-1.5-pro",
+      name: "Gemini 1.5 Pro",
+      description: "Most capable Gemini model with a very long context",
+      supportsVision: true,
+      contextWindow: 2000000,
+      maxOutputTokens: 8192,
+      pricing: { input: 1.25, output: 5 }
+    },
+    {
+      id: "gemini-1.5-flash",
+      name: "Gemini 1.5 Flash",
+      description: "Fast and cost-effective multimodal model",
+      supportsVision: true,
+      contextWindow: 1000000,
+      maxOutputTokens: 8192,
+      pricing: { input: 0.075, output: 0.3 }
+    },
+    {
+      id: "gemini-2.0-flash",
+      name: "Gemini 2.0 Flash",
+      description: "Latest Flash model with improved reasoning",
+      supportsVision: true,
+      contextWindow: 1000000,
+      maxOutputTokens: 8192,
+      pricing: { input: 0.1, output: 0.4 }
+    }
+  ],
+  // Local models are discovered from the endpoint at runtime
+  local: [],
+  // Azure deployments come from the deployment mapping in the settings
+  azure: []
+};
+
+/**
+ * Best guess at whether a model we have no metadata for accepts images
+ */
+function inferVisionSupport(provider: ModelProvider, id: string): boolean {
+  switch (provider) {
+    case "openai":
+      return /gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-4-vision|gpt-5|^o[134]/.test(id);
+    case "claude":
+      return !/claude-(2|instant)/.test(id);
+    default:
+      // Gemini models are multimodal; local servers reject images themselves
+      return true;
+  }
+}
+
+/**
+ * Drop undefined fields so they don't overwrite known values when merging
+ */
+function definedFields<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as Partial<T>;
+}
+
+interface CatalogCache {
+  [provider: string]: { fetchedAt: number; models: DiscoveredModel[] };
+}
+
+export class ModelRegistry {
+  private cachePath: string;
+  private cache: CatalogCache | null = null;
+
+  constructor() {
+    try {
+      this.cachePath = path.join(app.getPath('userData'), 'model-catalog.json');
+    } catch (err) {
+      console.warn('Could not access user data path, using fallback');
+      this.cachePath = path.join(process.cwd(), 'model-catalog.json');
+    }
+  }
+
+  private loadCache(): CatalogCache {
+    if (this.cache) return this.cache;
+
+    let cache: CatalogCache = {};
+    try {
+      if (fs.existsSync(this.cachePath)) {
+        cache = JSON.parse(fs.readFileSync(this.cachePath, 'utf8'));
+      }
+    } catch (err) {
+      console.error("Error loading model catalog cache:", err);
+    }
+    this.cache = cache;
+    return cache;
+  }
+
+  private saveCache(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      fs.writeFileSync(this.cachePath, JSON.stringify(this.loadCache(), null, 2));
+    } catch (err) {
+      console.error("Error saving model catalog cache:", err);
+    }
+  }
+
+  /**
+   * Metadata for a model, falling back to inferred capabilities for ids
+   * the catalog hasn't seen
+   */
+  public getModel(provider: ModelProvider, id: string): ModelInfo {
+    const known = this.getModels(provider).find(model => model.id === id);
+    return known || {
+      id,
+      name: id,
+      description: "Custom model",
+      supportsVision: inferVisionSupport(provider, id)
+    };
+  }
+
+  public isKnownModel(provider: ModelProvider, id: string): boolean {
+    return this.getModels(provider).some(model => model.id === id);
+  }
+
+  /**
+   * All models for a provider: built-in entries first, then any extra
+   * models the provider reported at the last refresh
+   */
+  public getModels(provider: ModelProvider): ModelInfo[] {
+    const builtin = BUILTIN_MODELS[provider] || [];
+    const discovered = this.loadCache()[provider]?.models || [];
+
+    const merged = builtin.map(model => {
+      const listed = discovered.find(entry => entry.id === model.id);
+      // Shipped metadata wins; the listing only fills gaps
+      return listed ? { ...model, ...definedFields(listed), ...definedFields(model) } : model;
+    });
+
+    const extra = discovered
+      .filter(entry => !builtin.some(model => model.id === entry.id))
+      .map(entry => ({
+        name: entry.id,
+        description: "Discovered from provider",
+        supportsVision: inferVisionSupport(provider, entry.id),
+        ...definedFields(entry)
+      }) as ModelInfo)
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    return [...merged, ...extra];
+  }
+
+  /**
+   * Prices for every catalog model that has them, keyed by model id
+   */
+  public getPricing(): Record<string, { input: number; output: number }> {
+    const pricing: Record<string, { input: number; output: number }> = {};
+    for (const provider of Object.keys(BUILTIN_MODELS) as ModelProvider[]) {
+      for (const model of this.getModels(provider)) {
+        if (model.pricing) pricing[model.id] = model.pricing;
+      }
+    }
+    return pricing;
+  }
+
+  /**
+   * Whether the provider's model list should be fetched again
+   */
+  public isStale(provider: ModelProvider): boolean {
+    const entry = this.loadCache()[provider];
+    return !entry || Date.now() - entry.fetchedAt > CACHE_TTL_MS;
+  }
+
+  /**
+   * Fetch the provider's current models through the adapter and cache them
+   */
+  public async refresh(provider: ModelProvider, adapter: ModelAdapter): Promise<ModelInfo[]> {
+    const models = await adapter.listModels();
+    this.loadCache()[provider] = { fetchedAt: Date.now(), models };
+    this.saveCache();
+    return this.getModels(provider);
+  }
+}
+
+// Export a singleton instance
+export const modelRegistry = new ModelRegistry();
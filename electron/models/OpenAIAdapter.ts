@@ -1,63 +1,63 @@
 // OpenAIAdapter.ts - OpenAI implementation of the model adapter
 
-import { OpenAI } from "openai";
+import { OpenAI, ClientOptions } from "openai";
 import {
+  DiscoveredModel,
   ModelAdapter,
   ModelMessage,
   ModelRequestOptions,
-  ModelResponse
+  ModelResponse,
+  ModelStreamCallback
 } from "./ModelInterface";
+import { toModelError } from "./ModelErrors";
+import { modelRegistry } from "./ModelRegistry";
+import { ModelProvider } from "./ModelFactory";
+import { getClientOptions, NetworkOptions } from "./NetworkOptions";
 
-/**
- * Available OpenAI models with their capabilities
- */
-const OPENAI_MODELS = {
-  "gpt-4o": {
-    maxTokens: 128000,
-    supportsVision: true,
-    description: "Best overall performance, supports images"
-  },
-  "gpt-4o-mini": {
-    maxTokens: 128000,
-    supportsVision: true,
-    description: "Faster, more cost-effective option with vision"
-  },
-  "gpt-4-turbo": {
-    maxTokens: 128000,
-    supportsVision: true,
-    description: "Advanced capabilities with vision support"
-  },
-  "gpt-3.5-turbo": {
-    maxTokens: 16385,
-    supportsVision: false,
-    description: "Fast and efficient for text-only tasks"
-  }
-};
+export const OPENAI_BASE_URL = "https://api.openai.com/v1";
 
 /**
  * OpenAI implementation of the ModelAdapter interface
  */
 export class OpenAIAdapter implements ModelAdapter {
-  readonly provider = "OpenAI";
-  private client: OpenAI | null = null;
-  private apiKey: string;
-  private model: string;
+  readonly provider: string = "OpenAI";
+  protected client: OpenAI | null = null;
+  protected apiKey: string;
+  protected model: string;
 
-  constructor(apiKey: string, model: string = "gpt-4o") {
+  /**
+   * @param clientOptions Extra OpenAI client options, e.g. baseURL for
+   * OpenAI-compatible endpoints or the agent and timeout from NetworkOptions
+   */
+  constructor(
+    apiKey: string,
+    model: string = "gpt-4o",
+    protected clientOptions: ClientOptions = {}
+  ) {
     this.apiKey = apiKey;
     this.model = this.validateModel(model);
     this.initializeClient();
   }
 
-  private validateModel(model: string): string {
-    if (Object.keys(OPENAI_MODELS).includes(model)) {
-      return model;
+  /**
+   * Registry key for this adapter's models
+   */
+  protected get catalogProvider(): ModelProvider {
+    return "openai";
+  }
+
+  protected validateModel(model: string): string {
+    if (!model) {
+      return "gpt-4o";
     }
-    console.warn(`Invalid OpenAI model: ${model}. Defaulting to gpt-4o`);
-    return "gpt-4o";
+    if (!modelRegistry.isKnownModel(this.catalogProvider, model)) {
+      // Newer models work without a code change; capabilities are inferred
+      console.warn(`OpenAI model ${model} is not in the catalog, using it as-is`);
+    }
+    return model;
   }
 
-  private initializeClient(): void {
+  protected initializeClient(): void {
     if (!this.apiKey) {
       this.client = null;
       return;
@@ -67,7 +67,8 @@ export class OpenAIAdapter implements ModelAdapter {
       this.client = new OpenAI({
         apiKey: this.apiKey,
         timeout: 60000, // 60 second timeout
-        maxRetries: 2 // Retry up to 2 times
+        maxRetries: 0, // Retries are handled by RetryAdapter
+        ...this.clientOptions
       });
       console.log("OpenAI client initialized successfully");
     } catch (error) {
@@ -77,7 +78,24 @@ export class OpenAIAdapter implements ModelAdapter {
   }
 
   getAvailableModels(): string[] {
-    return Object.keys(OPENAI_MODELS);
+    return modelRegistry.getModels(this.catalogProvider).map(model => model.id);
+  }
+
+  /**
+   * List chat models from /v1/models, skipping embedding, audio and other
+   * non-chat models
+   */
+  async listModels(): Promise<DiscoveredModel[]> {
+    if (!this.client) {
+      throw new Error("OpenAI client not initialized");
+    }
+
+    const page = await this.client.models.list();
+    return page.data
+      .map(model => model.id)
+      .filter(id => /^(gpt-|o\d|chatgpt-)/.test(id))
+      .filter(id => !/instruct|audio|realtime|tts|transcribe|search|image|embedding/.test(id))
+      .map(id => ({ id }));
   }
 
   getCurrentModel(): string {
@@ -103,7 +121,7 @@ export class OpenAIAdapter implements ModelAdapter {
 
   async testApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
     try {
-      const tempClient = new OpenAI({ apiKey });
+      const tempClient = new OpenAI({ apiKey, ...this.clientOptions });
       await tempClient.models.list();
       return { valid: true };
     } catch (error: any) {
@@ -126,6 +144,42 @@ export class OpenAIAdapter implements ModelAdapter {
     }
   }
 
+  /**
+   * Map OpenAI API errors to the adapter's error messages
+   */
+  protected handleRequestError(error: any): never {
+    throw toModelError(error, this.provider);
+  }
+
+  /**
+   * Whether the model takes a JSON schema response_format. Older models
+   * such as gpt-3.5-turbo only have JSON mode.
+   */
+  protected supportsStructuredOutputs(): boolean {
+    return /gpt-4o|gpt-4\.1|gpt-5|^o[134]/.test(this.model);
+  }
+
+  /**
+   * Strict json_schema response format for structured requests
+   */
+  protected getResponseFormat(options?: ModelRequestOptions): { response_format?: any } {
+    if (!options?.responseSchema) return {};
+    if (!this.supportsStructuredOutputs()) {
+      // The schema is also in the prompt, and requestStructured validates
+      return { response_format: { type: "json_object" } };
+    }
+    return {
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: options.responseSchema.name,
+          schema: options.responseSchema.schema,
+          strict: true
+        }
+      }
+    };
+  }
+
   async complete(
     messages: ModelMessage[],
     options?: ModelRequestOptions
@@ -135,13 +189,17 @@ export class OpenAIAdapter implements ModelAdapter {
     }
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: messages as any, // Type adaptation between our interface and OpenAI's
-        max_tokens: options?.maxTokens,
-        temperature: options?.temperature ?? 0.7,
-        stream: false
-      });
+      const response = await this.client.chat.completions.create(
+        {
+          model: this.model,
+          messages: messages as any, // Type adaptation between our interface and OpenAI's
+          max_tokens: options?.maxTokens,
+          temperature: options?.temperature ?? 0.7,
+          stream: false,
+          ...this.getResponseFormat(options)
+        },
+        { signal: options?.signal }
+      );
 
       return {
         content: response.choices[0].message.content || "",
@@ -152,13 +210,7 @@ export class OpenAIAdapter implements ModelAdapter {
         }
       };
     } catch (error: any) {
-      if (error.status === 401) {
-        throw new Error("Invalid API key");
-      } else if (error.status === 429) {
-        throw new Error("Rate limit exceeded or insufficient quota");
-      } else {
-        throw error;
-      }
+      this.handleRequestError(error);
     }
   }
 
@@ -166,47 +218,77 @@ export class OpenAIAdapter implements ModelAdapter {
     messages: ModelMessage[],
     options?: ModelRequestOptions
   ): Promise<ModelResponse> {
-    if (!this.client) {
-      throw new Error("OpenAI client not initialized");
-    }
-
     if (!this.supportsVision()) {
       throw new Error(`Model ${this.model} does not support vision capabilities`);
     }
 
+    // For OpenAI, the vision API is the same as the completion API
+    // when messages contain image content
+    return this.complete(messages, options);
+  }
+
+  async completeStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    if (!this.client) {
+      throw new Error("OpenAI client not initialized");
+    }
+
     try {
-      // For OpenAI, the vision API is the same as the completion API
-      // when messages contain image content
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: messages as any, // Type adaptation
-        max_tokens: options?.maxTokens,
-        temperature: options?.temperature ?? 0.7,
-        stream: false
-      });
+      const stream = await this.client.chat.completions.create(
+        {
+          model: this.model,
+          messages: messages as any, // Type adaptation
+          max_tokens: options?.maxTokens,
+          temperature: options?.temperature ?? 0.7,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...this.getResponseFormat(options)
+        },
+        { signal: options?.signal }
+      );
 
-      return {
-        content: response.choices[0].message.content || "",
-        usage: {
-          promptTokens: response.usage?.prompt_tokens,
-          completionTokens: response.usage?.completion_tokens,
-          totalTokens: response.usage?.total_tokens
+      let content = "";
+      let usage: ModelResponse["usage"];
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content || "";
+        if (delta) {
+          content += delta;
+          onToken(delta, content);
+        }
+        // Usage is only reported on the final chunk
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens
+          };
         }
-      };
-    } catch (error: any) {
-      if (error.status === 401) {
-        throw new Error("Invalid API key");
-      } else if (error.status === 429) {
-        throw new Error("Rate limit exceeded or insufficient quota");
-      } else {
-        throw error;
       }
+
+      return { content, usage };
+    } catch (error: any) {
+      this.handleRequestError(error);
     }
   }
 
+  async visionStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    if (!this.supportsVision()) {
+      throw new Error(`Model ${this.model} does not support vision capabilities`);
+    }
+
+    return this.completeStream(messages, onToken, options);
+  }
+
   supportsVision(): boolean {
-    const modelInfo = OPENAI_MODELS[this.model as keyof typeof OPENAI_MODELS];
-    return modelInfo ? modelInfo.supportsVision : false;
+    return modelRegistry.getModel(this.catalogProvider, this.model).supportsVision;
   }
 }
 
@@ -215,7 +297,8 @@ export class OpenAIAdapter implements ModelAdapter {
  */
 export const createOpenAIAdapter = (
   apiKey: string,
-  model: string = "gpt-4o"
+  model: string = "gpt-4o",
+  network?: NetworkOptions
 ): ModelAdapter => {
-  return new OpenAIAdapter(apiKey, model);
+  return new OpenAIAdapter(apiKey, model, getClientOptions(OPENAI_BASE_URL, network));
 };
\ No newline at end of file
@@ -0,0 +1,257 @@
+// ReplayAdapter.ts - Records model traffic to fixtures and replays it offline
+
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import {
+  DiscoveredModel,
+  ModelAdapter,
+  ModelMessage,
+  ModelRequestOptions,
+  ModelResponse,
+  ModelStreamCallback
+} from "./ModelInterface";
+import { InvalidRequestError } from "./ModelErrors";
+
+export type ReplayAdapterMode = "record" | "replay";
+
+export interface ReplayAdapterOptions {
+  mode: ReplayAdapterMode;
+  fixtureDir: string;
+  // Adapter to record from; not needed when replaying
+  adapter?: ModelAdapter;
+  // Model reported while replaying without an adapter
+  model?: string;
+}
+
+/**
+ * A recorded request and the response it produced. Streamed responses
+ * keep their chunks so replays stream the same way.
+ */
+interface Fixture {
+  key: string;
+  recordedAt: string;
+  request: {
+    messages: ModelMessage[];
+    options: Omit<ModelRequestOptions, "signal">;
+  };
+  response: ModelResponse;
+  chunks?: string[];
+}
+
+const sha256 = (value: string): string =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+/**
+ * Request fields that determine the response. The abort signal and the
+ * choice of streaming don't, so they are left out of the key.
+ */
+function getRequestIdentity(messages: ModelMessage[], options?: ModelRequestOptions) {
+  return {
+    messages,
+    options: {
+      maxTokens: options?.maxTokens,
+      temperature: options?.temperature,
+      responseSchema: options?.responseSchema
+    }
+  };
+}
+
+/**
+ * Replace inline image data with its hash so fixtures stay readable
+ */
+function withoutImageData(messages: ModelMessage[]): ModelMessage[] {
+  return messages.map(msg => typeof msg.content === "string" ? msg : {
+    ...msg,
+    content: msg.content.map(item => item.type === "image_url"
+      ? { ...item, image_url: { url: `sha256:${sha256(item.image_url.url)}` } }
+      : item)
+  });
+}
+
+/**
+ * ModelAdapter that either wraps a real adapter and writes every
+ * request/response pair to disk (record), or serves those fixtures without
+ * touching the network (replay). Fixtures are keyed by a hash of the
+ * messages and request options; identical requests repeated within a run
+ * are numbered so each gets its own response.
+ */
+export class ReplayAdapter implements ModelAdapter {
+  private mode: ReplayAdapterMode;
+  private fixtureDir: string;
+  private adapter?: ModelAdapter;
+  private model: string;
+  private requestCounts = new Map<string, number>();
+
+  constructor(options: ReplayAdapterOptions) {
+    if (options.mode === "record" && !options.adapter) {
+      throw new Error("ReplayAdapter needs an adapter to record from");
+    }
+    this.mode = options.mode;
+    this.fixtureDir = options.fixtureDir;
+    this.adapter = options.adapter;
+    this.model = options.model || "replay";
+  }
+
+  get provider(): string {
+    return this.adapter?.provider || "Replay";
+  }
+
+  private getFixturePath(key: string, occurrence: number): string {
+    const suffix = occurrence > 1 ? `-${occurrence}` : "";
+    return path.join(this.fixtureDir, `${key}${suffix}.json`);
+  }
+
+  /**
+   * Key for the request and how many times it has been seen in this run
+   */
+  private nextRequest(messages: ModelMessage[], options?: ModelRequestOptions) {
+    const key = sha256(JSON.stringify(getRequestIdentity(messages, options)));
+    const occurrence = (this.requestCounts.get(key) || 0) + 1;
+    this.requestCounts.set(key, occurrence);
+    return { key, occurrence };
+  }
+
+  private loadFixture(key: string, occurrence: number): Fixture {
+    // A repeat without its own recording replays the first response
+    const candidates = [this.getFixturePath(key, occurrence), this.getFixturePath(key, 1)];
+    const fixturePath = candidates.find(candidate => fs.existsSync(candidate));
+    if (!fixturePath) {
+      throw new InvalidRequestError(
+        `No recorded fixture for request ${key} in ${this.fixtureDir}`,
+        { provider: this.provider }
+      );
+    }
+    return JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+  }
+
+  private saveFixture(
+    key: string,
+    occurrence: number,
+    messages: ModelMessage[],
+    options: ModelRequestOptions | undefined,
+    response: ModelResponse,
+    chunks?: string[]
+  ): void {
+    const identity = getRequestIdentity(withoutImageData(messages), options);
+    const fixture: Fixture = {
+      key,
+      recordedAt: new Date().toISOString(),
+      request: identity,
+      response,
+      ...(chunks ? { chunks } : {})
+    };
+    try {
+      fs.mkdirSync(this.fixtureDir, { recursive: true });
+      fs.writeFileSync(this.getFixturePath(key, occurrence), JSON.stringify(fixture, null, 2));
+    } catch (err) {
+      console.error("Error saving model fixture:", err);
+    }
+  }
+
+  private async request(
+    messages: ModelMessage[],
+    options: ModelRequestOptions | undefined,
+    send: (adapter: ModelAdapter) => Promise<ModelResponse>
+  ): Promise<ModelResponse> {
+    const { key, occurrence } = this.nextRequest(messages, options);
+    if (this.mode === "replay") {
+      return this.loadFixture(key, occurrence).response;
+    }
+
+    const response = await send(this.adapter!);
+    this.saveFixture(key, occurrence, messages, options, response);
+    return response;
+  }
+
+  private async requestStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options: ModelRequestOptions | undefined,
+    send: (adapter: ModelAdapter, onToken: ModelStreamCallback) => Promise<ModelResponse>
+  ): Promise<ModelResponse> {
+    const { key, occurrence } = this.nextRequest(messages, options);
+    if (this.mode === "replay") {
+      const fixture = this.loadFixture(key, occurrence);
+      // Fixtures recorded without streaming replay as a single chunk
+      const chunks = fixture.chunks || [fixture.response.content];
+      let snapshot = "";
+      for (const chunk of chunks) {
+        snapshot += chunk;
+        onToken(chunk, snapshot);
+      }
+      return fixture.response;
+    }
+
+    const chunks: string[] = [];
+    const response = await send(this.adapter!, (delta, snapshot) => {
+      chunks.push(delta);
+      onToken(delta, snapshot);
+    });
+    this.saveFixture(key, occurrence, messages, options, response, chunks);
+    return response;
+  }
+
+  getAvailableModels(): string[] {
+    return this.adapter ? this.adapter.getAvailableModels() : [this.model];
+  }
+
+  async listModels(): Promise<DiscoveredModel[]> {
+    return this.adapter ? this.adapter.listModels() : [{ id: this.model }];
+  }
+
+  getCurrentModel(): string {
+    return this.adapter ? this.adapter.getCurrentModel() : this.model;
+  }
+
+  setModel(model: string): void {
+    if (this.adapter) {
+      this.adapter.setModel(model);
+    } else {
+      this.model = model;
+    }
+  }
+
+  setApiKey(apiKey: string): void {
+    this.adapter?.setApiKey(apiKey);
+  }
+
+  getApiKey(): string {
+    return this.adapter ? this.adapter.getApiKey() : "";
+  }
+
+  async testApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
+    // Replay never needs a key
+    return this.adapter ? this.adapter.testApiKey(apiKey) : { valid: true };
+  }
+
+  complete(messages: ModelMessage[], options?: ModelRequestOptions): Promise<ModelResponse> {
+    return this.request(messages, options, adapter => adapter.complete(messages, options));
+  }
+
+  vision(messages: ModelMessage[], options?: ModelRequestOptions): Promise<ModelResponse> {
+    return this.request(messages, options, adapter => adapter.vision(messages, options));
+  }
+
+  completeStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    return this.requestStream(messages, onToken, options,
+      (adapter, record) => adapter.completeStream(messages, record, options));
+  }
+
+  visionStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    return this.requestStream(messages, onToken, options,
+      (adapter, record) => adapter.visionStream(messages, record, options));
+  }
+
+  supportsVision(): boolean {
+    return this.adapter ? this.adapter.supportsVision() : true;
+  }
+}
@@ -0,0 +1,205 @@
+// RetryAdapter.ts - Retries transient model errors with exponential backoff
+
+import {
+  DiscoveredModel,
+  ModelAdapter,
+  ModelMessage,
+  ModelRequestOptions,
+  ModelResponse,
+  ModelStreamCallback
+} from "./ModelInterface";
+import { AbortedError, ModelError, RateLimitError, toModelError } from "./ModelErrors";
+
+/**
+ * Details passed to the retry callback before waiting for the next attempt
+ */
+export interface RetryInfo {
+  provider: string;
+  attempt: number; // The attempt about to be made, starting at 2
+  maxAttempts: number;
+  delayMs: number;
+  error: ModelError;
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Retry-After values longer than this are not waited out; the error is
+  // thrown so a fallback provider can take over instead
+  maxRetryAfterMs?: number;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+const DEFAULT_RETRY_OPTIONS = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  maxRetryAfterMs: 60000
+};
+
+/**
+ * Wait for the given time, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortedError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Delay before the given retry: the server's Retry-After when present,
+ * otherwise exponential backoff with full jitter
+ */
+function getRetryDelay(error: ModelError, retry: number, options: typeof DEFAULT_RETRY_OPTIONS): number {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Run a request, retrying retryable ModelErrors. Errors are normalized to
+ * the typed hierarchy so callers can branch on the error class.
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  provider: string,
+  options: RetryOptions = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const resolved = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const maxAttempts = resolved.maxRetries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (rawError: any) {
+      const error = signal?.aborted
+        ? new AbortedError("Request was canceled", { provider, cause: rawError })
+        : toModelError(rawError, provider);
+
+      if (!error.retryable || attempt >= maxAttempts) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(error, attempt, resolved);
+      if (delayMs > resolved.maxRetryAfterMs) {
+        throw error;
+      }
+
+      console.warn(`${provider} request failed (${error.message}), retrying in ${delayMs}ms`);
+      options.onRetry?.({ provider, attempt: attempt + 1, maxAttempts, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * ModelAdapter that wraps another adapter and retries transient failures.
+ * Non-request methods are delegated unchanged.
+ */
+export class RetryAdapter implements ModelAdapter {
+  private adapter: ModelAdapter;
+  private options: RetryOptions;
+
+  constructor(adapter: ModelAdapter, options: RetryOptions = {}) {
+    this.adapter = adapter;
+    this.options = options;
+  }
+
+  get provider(): string {
+    return this.adapter.provider;
+  }
+
+  getAvailableModels(): string[] {
+    return this.adapter.getAvailableModels();
+  }
+
+  listModels(): Promise<DiscoveredModel[]> {
+    return this.adapter.listModels();
+  }
+
+  getCurrentModel(): string {
+    return this.adapter.getCurrentModel();
+  }
+
+  setModel(model: string): void {
+    this.adapter.setModel(model);
+  }
+
+  setApiKey(apiKey: string): void {
+    this.adapter.setApiKey(apiKey);
+  }
+
+  getApiKey(): string {
+    return this.adapter.getApiKey();
+  }
+
+  testApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
+    return this.adapter.testApiKey(apiKey);
+  }
+
+  complete(messages: ModelMessage[], options?: ModelRequestOptions): Promise<ModelResponse> {
+    return withRetry(
+      () => this.adapter.complete(messages, options),
+      this.provider,
+      this.options,
+      options?.signal
+    );
+  }
+
+  vision(messages: ModelMessage[], options?: ModelRequestOptions): Promise<ModelResponse> {
+    return withRetry(
+      () => this.adapter.vision(messages, options),
+      this.provider,
+      this.options,
+      options?.signal
+    );
+  }
+
+  completeStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    // A retried stream starts over and sends fresh snapshots
+    return withRetry(
+      () => this.adapter.completeStream(messages, onToken, options),
+      this.provider,
+      this.options,
+      options?.signal
+    );
+  }
+
+  visionStream(
+    messages: ModelMessage[],
+    onToken: ModelStreamCallback,
+    options?: ModelRequestOptions
+  ): Promise<ModelResponse> {
+    return withRetry(
+      () => this.adapter.visionStream(messages, onToken, options),
+      this.provider,
+      this.options,
+      options?.signal
+    );
+  }
+
+  supportsVision(): boolean {
+    return this.adapter.supportsVision();
+  }
+}
@@ -0,0 +1,167 @@
+// StructuredOutput.ts - Schema-validated JSON responses from any model adapter
+
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  ModelAdapter,
+  ModelMessage,
+  ModelRequestOptions,
+  ModelResponse,
+  ModelStreamCallback,
+  ResponseSchema,
+  isTextContent
+} from "./ModelInterface";
+import { InvalidResponseError } from "./ModelErrors";
+
+export interface StructuredRequestOptions extends Omit<ModelRequestOptions, "responseSchema"> {
+  // Schema name sent to the provider (letters, digits, _ and - only)
+  name: string;
+  // Send through the vision endpoint (messages contain images)
+  vision?: boolean;
+  // Stream partial JSON snapshots while the response arrives
+  onToken?: ModelStreamCallback;
+}
+
+/**
+ * Response whose content parsed and validated against the schema
+ */
+export interface StructuredResponse<T> extends ModelResponse {
+  data: T;
+}
+
+/**
+ * Convert a zod schema to the JSON schema subset providers accept:
+ * inlined definitions, every property required, no extra properties
+ */
+export function toResponseSchema(name: string, schema: z.ZodTypeAny): ResponseSchema {
+  // Typed loosely: the converter's generics recurse too deeply for the compiler
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema as any, {
+    target: "openAi",
+    $refStrategy: "none"
+  }) as Record<string, any>;
+  return { name, schema: jsonSchema };
+}
+
+/**
+ * Pull the JSON object out of a response, tolerating markdown fences and
+ * text around it from providers without native structured output
+ */
+export function extractJson(content: string): unknown {
+  const text = content.replace(/```(?:json)?/g, "").trim();
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return JSON.parse(start !== -1 && end > start ? text.slice(start, end + 1) : text);
+}
+
+/**
+ * Parse and validate a response, returning either the data or a list of
+ * problems to send back to the model
+ */
+function validate<T>(
+  content: string,
+  schema: z.ZodType<T, z.ZodTypeDef, any>
+): { data: T; issues?: undefined } | { data?: undefined; issues: string[] } {
+  let json: unknown;
+  try {
+    json = extractJson(content);
+  } catch (error: any) {
+    return { issues: [`Response is not valid JSON: ${error.message}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { data: result.data };
+  }
+  return {
+    issues: result.error.issues.map(issue =>
+      `${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`
+    )
+  };
+}
+
+/**
+ * Add the schema to the system prompt so providers without native
+ * structured output still know the expected shape
+ */
+function withSchemaInstructions(messages: ModelMessage[], responseSchema: ResponseSchema): ModelMessage[] {
+  const instructions =
+    "Respond only with a JSON object that matches this JSON schema, with no other text:\n" +
+    JSON.stringify(responseSchema.schema);
+
+  const systemIndex = messages.findIndex(msg => msg.role === "system");
+  if (systemIndex === -1) {
+    return [{ role: "system", content: instructions }, ...messages];
+  }
+
+  const system = messages[systemIndex];
+  const systemText = typeof system.content === "string"
+    ? system.content
+    : system.content.filter(isTextContent).map(item => item.text).join("\n");
+  return messages.map((msg, index) =>
+    index === systemIndex ? { role: "system", content: `${systemText}\n\n${instructions}` } : msg
+  );
+}
+
+const addUsage = (a: ModelResponse["usage"], b: ModelResponse["usage"]): ModelResponse["usage"] => {
+  if (!a || !b) return a || b;
+  return {
+    promptTokens: (a.promptTokens || 0) + (b.promptTokens || 0),
+    completionTokens: (a.completionTokens || 0) + (b.completionTokens || 0),
+    totalTokens: (a.totalTokens || 0) + (b.totalTokens || 0)
+  };
+};
+
+/**
+ * Request a JSON object matching the schema. If the response doesn't
+ * validate, the model is shown the problems and asked once to repair it
+ * before an InvalidResponseError is thrown.
+ */
+export async function requestStructured<T>(
+  adapter: ModelAdapter,
+  messages: ModelMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, any>,
+  options: StructuredRequestOptions
+): Promise<StructuredResponse<T>> {
+  const { name, vision, onToken, ...requestOptions } = options;
+  const responseSchema = toResponseSchema(name, schema);
+  const prompt = withSchemaInstructions(messages, responseSchema);
+  const modelOptions: ModelRequestOptions = { ...requestOptions, responseSchema };
+
+  const send = (request: ModelMessage[], stream?: ModelStreamCallback): Promise<ModelResponse> => {
+    if (stream) {
+      return vision
+        ? adapter.visionStream(request, stream, modelOptions)
+        : adapter.completeStream(request, stream, modelOptions);
+    }
+    return vision ? adapter.vision(request, modelOptions) : adapter.complete(request, modelOptions);
+  };
+
+  const response = await send(prompt, onToken);
+  const first = validate(response.content, schema);
+  if (first.issues === undefined) {
+    return { ...response, data: first.data };
+  }
+
+  console.warn(`Structured ${name} response failed validation, asking for a repair:`, first.issues);
+  const repairResponse = await send([
+    ...prompt,
+    { role: "assistant", content: response.content },
+    {
+      role: "user",
+      content:
+        "That response does not match the required schema:\n" +
+        first.issues.map(issue => `- ${issue}`).join("\n") +
+        "\nReply with only the corrected JSON object."
+    }
+  ]);
+  const repaired = validate(repairResponse.content, schema);
+  const usage = addUsage(response.usage, repairResponse.usage);
+
+  if (repaired.issues !== undefined) {
+    throw new InvalidResponseError("The model returned a response in an unexpected format", {
+      provider: repairResponse.provider || response.provider || adapter.provider,
+      issues: repaired.issues
+    });
+  }
+  return { ...repairResponse, usage, data: repaired.data };
+}
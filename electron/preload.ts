@@ -7,19 +7,25 @@ export const PROCESSING_EVENTS = {
   UNAUTHORIZED: "procesing-unauthorized",
   NO_SCREENSHOTS: "processing-no-screenshots",
   OUT_OF_CREDITS: "out-of-credits",
+  BUDGET_WARNING: "budget-warning",
   API_KEY_INVALID: "api-key-invalid",
 
   //states for generating the initial solution
   INITIAL_START: "initial-start",
   PROBLEM_EXTRACTED: "problem-extracted",
+  SOLUTION_CHUNK: "solution-chunk",
   SOLUTION_SUCCESS: "solution-success",
   INITIAL_SOLUTION_ERROR: "solution-error",
   RESET: "reset",
 
   //states for processing the debugging
   DEBUG_START: "debug-start",
+  DEBUG_CHUNK: "debug-chunk",
   DEBUG_SUCCESS: "debug-success",
-  DEBUG_ERROR: "debug-error"
+  DEBUG_ERROR: "debug-error",
+
+  //follow-up chat about the solution
+  FOLLOW_UP_CHUNK: "follow-up-chunk"
 } as const
 
 // At the top of the file
@@ -112,13 +118,20 @@ const electronAPI = {
       ipcRenderer.removeListener(PROCESSING_EVENTS.NO_SCREENSHOTS, subscription)
     }
   },
-  onOutOfCredits: (callback: () => void) => {
-    const subscription = () => callback()
+  onOutOfCredits: (callback: (status: any) => void) => {
+    const subscription = (_: any, status: any) => callback(status)
     ipcRenderer.on(PROCESSING_EVENTS.OUT_OF_CREDITS, subscription)
     return () => {
       ipcRenderer.removeListener(PROCESSING_EVENTS.OUT_OF_CREDITS, subscription)
     }
   },
+  onBudgetWarning: (callback: (status: any) => void) => {
+    const subscription = (_: any, status: any) => callback(status)
+    ipcRenderer.on(PROCESSING_EVENTS.BUDGET_WARNING, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.BUDGET_WARNING, subscription)
+    }
+  },
   onProblemExtracted: (callback: (data: any) => void) => {
     const subscription = (_: any, data: any) => callback(data)
     ipcRenderer.on(PROCESSING_EVENTS.PROBLEM_EXTRACTED, subscription)
@@ -139,6 +152,27 @@ const electronAPI = {
       )
     }
   },
+  onSolutionChunk: (callback: (content: string) => void) => {
+    const subscription = (_: any, content: string) => callback(content)
+    ipcRenderer.on(PROCESSING_EVENTS.SOLUTION_CHUNK, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.SOLUTION_CHUNK, subscription)
+    }
+  },
+  onFollowUpChunk: (callback: (content: string) => void) => {
+    const subscription = (_: any, content: string) => callback(content)
+    ipcRenderer.on(PROCESSING_EVENTS.FOLLOW_UP_CHUNK, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.FOLLOW_UP_CHUNK, subscription)
+    }
+  },
+  onDebugChunk: (callback: (content: string) => void) => {
+    const subscription = (_: any, content: string) => callback(content)
+    ipcRenderer.on(PROCESSING_EVENTS.DEBUG_CHUNK, subscription)
+    return () => {
+      ipcRenderer.removeListener(PROCESSING_EVENTS.DEBUG_CHUNK, subscription)
+    }
+  },
   onUnauthorized: (callback: () => void) => {
     const subscription = () => callback()
     ipcRenderer.on(PROCESSING_EVENTS.UNAUTHORIZED, subscription)
@@ -215,8 +249,32 @@ const electronAPI = {
     }
   },
   checkApiKey: () => ipcRenderer.invoke("check-api-key"),
-  validateApiKey: (apiKey: string) => 
-    ipcRenderer.invoke("validate-api-key", apiKey),
+  validateApiKey: (apiKey: string, provider?: string, baseUrl?: string, apiVersion?: string) => 
+    ipcRenderer.invoke("validate-api-key", apiKey, provider, baseUrl, apiVersion),
+  testConnection: (provider: string, network: any, options?: { apiKey?: string; baseUrl?: string }) =>
+    ipcRenderer.invoke("test-connection", provider, network, options),
+  getAvailableProviders: () => ipcRenderer.invoke("get-available-providers"),
+  getAvailableModels: (provider: string, options?: { baseUrl?: string; apiKey?: string }) =>
+    ipcRenderer.invoke("get-available-models", provider, options),
+  refreshModels: (provider: string, options?: { apiKey?: string }) =>
+    ipcRenderer.invoke("refresh-models", provider, options),
+  getFollowUpThread: () => ipcRenderer.invoke("get-follow-up-thread"),
+  askFollowUp: (question: string) => ipcRenderer.invoke("ask-follow-up", question),
+  setTestCases: (testCases: any[]) =>
+    ipcRenderer.invoke("set-test-cases", testCases),
+  runTests: (code: string, language: string) =>
+    ipcRenderer.invoke("run-tests", code, language),
+  benchmarkComplexity: (code: string, language: string, claimedTimeComplexity: string | null) =>
+    ipcRenderer.invoke("benchmark-complexity", code, language, claimedTimeComplexity),
+  runSqlQuery: (query: string) => ipcRenderer.invoke("run-sql-query", query),
+  fixSolution: (code: string, summary: any) =>
+    ipcRenderer.invoke("fix-solution", code, summary),
+  exportDiagram: (format: "svg" | "png", data: string) =>
+    ipcRenderer.invoke("export-diagram", format, data),
+  recordHintsUsed: (problem: string, hintsUsed: number, totalHints: number) =>
+    ipcRenderer.invoke("record-hints-used", problem, hintsUsed, totalHints),
+  getUsageSummary: () => ipcRenderer.invoke("get-usage-summary"),
+  clearUsage: () => ipcRenderer.invoke("clear-usage"),
   openExternal: (url: string) => 
     ipcRenderer.invoke("openExternal", url),
   onApiKeyInvalid: (callback: () => void) => {
@@ -16,6 +16,7 @@ import { ToastContext } from "./contexts/toast"
 import { WelcomeScreen } from "./components/WelcomeScreen"
 import { SettingsDialog } from "./components/Settings/SettingsDialog"
 import ModeSelector from "./components/ModeSelector/ModeSelector"
+import { BudgetStatus } from "./types/electron"
 
 // Create a React Query client
 const queryClient = new QueryClient({
@@ -32,6 +33,22 @@ const queryClient = new QueryClient({
   }
 })
 
+const BUDGET_PERIOD_LABELS = {
+  session: "Session",
+  daily: "Today's",
+  monthly: "This month's"
+}
+
+// e.g. "Today's spend is $4.20 of your $5.00 limit"
+const formatBudgetStatus = (status: BudgetStatus): string => {
+  if (status.unpricedModels?.length) {
+    const models = status.unpricedModels
+    return `${models.join(", ")} ${models.length > 1 ? "have" : "has"} no price, so spending limits can't be enforced`
+  }
+  const period = status.period ? BUDGET_PERIOD_LABELS[status.period] : "Current"
+  return `${period} spend is $${(status.spent ?? 0).toFixed(2)} of your $${(status.limit ?? 0).toFixed(2)} limit`
+}
+
 // Root component that provides the QueryClient
 function App() {
   const [toastState, setToastState] = useState({
@@ -208,6 +225,28 @@ function App() {
     // Setup API key invalid listener
     window.electronAPI.onApiKeyInvalid(onApiKeyInvalid)
 
+    // Spending limit listeners
+    const unsubscribeOutOfCredits = window.electronAPI.onOutOfCredits(
+      (status: BudgetStatus) => {
+        showToast(
+          "Spending Limit Reached",
+          status.unpricedModels?.length
+            ? `${formatBudgetStatus(status)}. Enter a price in Settings > Usage to continue.`
+            : `${formatBudgetStatus(status)}. Raise the limit in Settings > Usage to continue.`,
+          "error"
+        )
+      }
+    )
+    const unsubscribeBudgetWarning = window.electronAPI.onBudgetWarning(
+      (status: BudgetStatus) => {
+        showToast(
+          status.unpricedModels?.length ? "Unpriced Model" : "Approaching Spending Limit",
+          formatBudgetStatus(status),
+          "neutral"
+        )
+      }
+    )
+
     // Define a no-op handler for solution success
     const unsubscribeSolutionSuccess = window.electronAPI.onSolutionSuccess(
       () => {
@@ -220,6 +259,8 @@ function App() {
     return () => {
       window.electronAPI.removeListener("API_KEY_INVALID", onApiKeyInvalid)
       unsubscribeSolutionSuccess()
+      unsubscribeOutOfCredits()
+      unsubscribeBudgetWarning()
       window.__IS_INITIALIZED__ = false
       setIsInitialized(false)
     }
@@ -8,6 +8,7 @@ import SolutionCommands from "../components/Solutions/SolutionCommands"
 import { Screenshot } from "../types/screenshots"
 import { ComplexitySection, ContentSection } from "./Solutions"
 import { useToast } from "../contexts/toast"
+import { parsePartialSolution } from "../lib/streaming"
 
 const CodeSection = ({
   title,
@@ -197,6 +198,14 @@ const Debug: React.FC<DebugProps> = ({
       window.electronAPI.onDebugStart(() => {
         setIsProcessing(true)
       }),
+      // Render the analysis incrementally while it is streaming
+      window.electronAPI.onDebugChunk((content: string) => {
+        setDebugAnalysis(content)
+        const { code } = parsePartialSolution(content)
+        if (code) {
+          setNewCode(code)
+        }
+      }),
       window.electronAPI.onDebugError((error: string) => {
         showToast(
           "Processing Failed",
@@ -6,11 +6,31 @@ import { dracula } from "react-syntax-highlighter/dist/esm/styles/prism"
 
 import ScreenshotQueue from "../components/Queue/ScreenshotQueue"
 
-import { ProblemStatementData } from "../types/solutions"
+import {
+  CapacityEstimate,
+  ComparisonSolution,
+  HintStep,
+  ProblemStatementData,
+  SystemDesignAnswer,
+  VoteSummary
+} from "../types/solutions"
 import SolutionCommands from "../components/Solutions/SolutionCommands"
+import SolutionComparison from "../components/Solutions/SolutionComparison"
+import AnswerConfidence from "../components/Solutions/AnswerConfidence"
+import FollowUpChat from "../components/Solutions/FollowUpChat"
+import HintLadder from "../components/Solutions/HintLadder"
+import TestCaseTable from "../components/Solutions/TestCaseTable"
+import QueryResults from "../components/Solutions/QueryResults"
+import ReactPreview from "../components/Solutions/ReactPreview"
+import ArchitectureDiagram from "../components/Solutions/ArchitectureDiagram"
+import CapacityCalculator from "../components/Solutions/CapacityCalculator"
+import TestResults, { RUNNABLE_LANGUAGES } from "../components/Solutions/TestResults"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs"
 import Debug from "./Debug"
 import { useToast } from "../contexts/toast"
 import { COMMAND_KEY } from "../utils/platform"
+import { parsePartialSolution } from "../lib/streaming"
+import { ComplexityBenchmark } from "../types/electron"
 
 export const ContentSection = ({
   title,
@@ -87,27 +107,68 @@ const SolutionSection = ({
 export const ComplexitySection = ({
   timeComplexity,
   spaceComplexity,
-  isLoading
+  isLoading,
+  benchmark,
+  isBenchmarking,
+  onBenchmark
 }: {
   timeComplexity: string | null
   spaceComplexity: string | null
   isLoading: boolean
+  // Measured time complexity, and how to start measuring it where the
+  // solution can be run locally
+  benchmark?: ComplexityBenchmark | null
+  isBenchmarking?: boolean
+  onBenchmark?: () => void
 }) => {
-  // Helper to ensure we have proper complexity values
-  const formatComplexity = (complexity: string | null): string => {
-    if (!complexity) return "O(n) - Linear time/space complexity";
-    
-    // Return the complexity as is if it already has Big O notation
-    if (complexity.match(/O\([^)]+\)/i)) {
-      return complexity;
-    }
-    
-    // Otherwise, add a default Big O
-    return `O(n) - ${complexity}`;
-  };
+  // Show the complexity as the model stated it, never a made-up default
+  const formatComplexity = (complexity: string | null): string =>
+    complexity?.trim() || "Not stated";
   
   const formattedTimeComplexity = formatComplexity(timeComplexity);
   const formattedSpaceComplexity = formatComplexity(spaceComplexity);
+
+  const renderBenchmark = () => {
+    if (isBenchmarking) {
+      return (
+        <p className="mt-2 text-xs bg-gradient-to-r from-gray-300 via-gray-100 to-gray-300 bg-clip-text text-transparent animate-pulse">
+          Measuring by timing the solution at growing input sizes...
+        </p>
+      );
+    }
+    if (!benchmark) {
+      return (
+        <button
+          onClick={onBenchmark}
+          className="mt-2 text-[11px] text-blue-300 hover:text-blue-200"
+        >
+          Measure by running it locally
+        </button>
+      );
+    }
+
+    const largest = benchmark.points[benchmark.points.length - 1]?.size;
+    return (
+      <div className="mt-2 space-y-1 text-[12px]">
+        {benchmark.measured ? (
+          <div className={benchmark.matchesClaim === false ? "text-red-300" : "text-gray-300"}>
+            <strong>Measured:</strong> {benchmark.measured}
+            {benchmark.matchesClaim === false && benchmark.claimed && (
+              <> (doesn't match the claimed {benchmark.claimed})</>
+            )}
+            <span className="text-white/40">
+              {" "}· n = {benchmark.sizeMeaning}, up to {largest?.toLocaleString()}
+            </span>
+          </div>
+        ) : (
+          <div className="text-gray-300">
+            <strong>Measured:</strong> not enough timings to fit a growth class
+          </div>
+        )}
+        {benchmark.note && <div className="text-[11px] text-white/40">{benchmark.note}</div>}
+      </div>
+    );
+  };
   
   return (
     <div className="space-y-2">
@@ -127,6 +188,7 @@ export const ComplexitySection = ({
                 <strong>Time:</strong> {formattedTimeComplexity}
               </div>
             </div>
+            {onBenchmark && renderBenchmark()}
           </div>
           <div className="text-[13px] leading-[1.4] text-gray-100 bg-white/5 rounded-md p-3">
             <div className="flex items-start gap-2">
@@ -142,17 +204,54 @@ export const ComplexitySection = ({
   );
 }
 
+/**
+ * Label for the provider and model that answered, e.g. "Claude · claude-3-7-sonnet"
+ */
+const formatAnsweredBy = (solution: {
+  provider?: string
+  model?: string
+}): string | null => {
+  if (!solution.provider) return null
+  return solution.model
+    ? `${solution.provider} · ${solution.model}`
+    : solution.provider
+}
+
+// System design solutions come without code, as sections and a diagram
+const toSystemDesignAnswer = (solution: {
+  thoughts?: string[]
+  architecture?: string
+  diagram?: string
+  data_model?: string
+  scalability?: string
+  tradeoffs?: string
+  capacity_estimate?: CapacityEstimate
+}): SystemDesignAnswer | null => {
+  if (!solution.architecture) return null
+  return {
+    architecture: solution.architecture,
+    diagram: solution.diagram || "",
+    components: solution.thoughts || [],
+    data_model: solution.data_model || "",
+    scalability: solution.scalability || "",
+    tradeoffs: solution.tradeoffs || "",
+    capacity_estimate: solution.capacity_estimate || null
+  }
+}
+
 export interface SolutionsProps {
   setView: (view: "queue" | "solutions" | "debug") => void
   credits: number
   currentLanguage: string
   setLanguage: (language: string) => void
+  interviewMode: string
 }
 const Solutions: React.FC<SolutionsProps> = ({
   setView,
   credits,
   currentLanguage,
-  setLanguage
+  setLanguage,
+  interviewMode
 }) => {
   const queryClient = useQueryClient()
   const contentRef = useRef<HTMLDivElement>(null)
@@ -168,6 +267,28 @@ const Solutions: React.FC<SolutionsProps> = ({
   const [spaceComplexityData, setSpaceComplexityData] = useState<string | null>(
     null
   )
+  // Partial model output received while the solution is still streaming
+  const [streamingContent, setStreamingContent] = useState<string | null>(
+    null
+  )
+  const [isDebugStreaming, setIsDebugStreaming] = useState(false)
+  // Provider and model that produced the solution (may be a fallback)
+  const [answeredBy, setAnsweredBy] = useState<string | null>(null)
+  // Second provider's solution when compare mode is on
+  const [comparisonData, setComparisonData] =
+    useState<ComparisonSolution | null>(null)
+  // Vote over several sampled answers to a certification question
+  const [votesData, setVotesData] = useState<VoteSummary | null>(null)
+  // Practice mode hint ladder, revealed one step at a time
+  const [hintsData, setHintsData] = useState<HintStep[] | null>(null)
+  // Time complexity measured by running the solution locally
+  const [benchmarkData, setBenchmarkData] =
+    useState<ComplexityBenchmark | null>(null)
+  const [isBenchmarking, setIsBenchmarking] = useState(false)
+  // Props that render a React solution with the sample data
+  const [previewProps, setPreviewProps] = useState<string | null>(null)
+  const [systemDesignData, setSystemDesignData] =
+    useState<SystemDesignAnswer | null>(null)
 
   const [isTooltipVisible, setIsTooltipVisible] = useState(false)
   const [tooltipHeight, setTooltipHeight] = useState(0)
@@ -264,6 +385,8 @@ const Solutions: React.FC<SolutionsProps> = ({
 
         // Reset screenshots
         setExtraScreenshots([])
+        setStreamingContent(null)
+        setIsDebugStreaming(false)
 
         // After a small delay, clear the resetting state
         setTimeout(() => {
@@ -276,19 +399,32 @@ const Solutions: React.FC<SolutionsProps> = ({
         setThoughtsData(null)
         setTimeComplexityData(null)
         setSpaceComplexityData(null)
+        setComparisonData(null)
+        setVotesData(null)
+        setHintsData(null)
+        setBenchmarkData(null)
+        setPreviewProps(null)
+        setSystemDesignData(null)
+        setStreamingContent(null)
       }),
       window.electronAPI.onProblemExtracted((data) => {
         queryClient.setQueryData(["problem_statement"], data)
       }),
+      window.electronAPI.onSolutionChunk((content: string) => {
+        setStreamingContent(content)
+      }),
       //if there was an error processing the initial solution
       window.electronAPI.onSolutionError((error: string) => {
         showToast("Processing Failed", error, "error")
+        setStreamingContent(null)
         // Reset solutions in the cache (even though this shouldn't ever happen) and complexities to previous states
         const solution = queryClient.getQueryData(["solution"]) as {
           code: string
           thoughts: string[]
           time_complexity: string
           space_complexity: string
+          architecture?: string
+          diagram?: string
         } | null
         if (!solution) {
           setView("queue")
@@ -297,10 +433,12 @@ const Solutions: React.FC<SolutionsProps> = ({
         setThoughtsData(solution?.thoughts || null)
         setTimeComplexityData(solution?.time_complexity || null)
         setSpaceComplexityData(solution?.space_complexity || null)
+        setSystemDesignData(solution ? toSystemDesignAnswer(solution) : null)
         console.error("Processing error:", error)
       }),
       //when the initial solution is generated, we'll set the solution data to that
       window.electronAPI.onSolutionSuccess((data) => {
+        setStreamingContent(null)
         if (!data) {
           console.warn("Received empty or invalid solution data")
           return
@@ -310,7 +448,19 @@ const Solutions: React.FC<SolutionsProps> = ({
           code: data.code,
           thoughts: data.thoughts,
           time_complexity: data.time_complexity,
-          space_complexity: data.space_complexity
+          space_complexity: data.space_complexity,
+          provider: data.provider,
+          model: data.model,
+          comparison: data.comparison,
+          votes: data.votes,
+          hints: data.hints,
+          preview_props: data.preview_props,
+          architecture: data.architecture,
+          diagram: data.diagram,
+          data_model: data.data_model,
+          scalability: data.scalability,
+          tradeoffs: data.tradeoffs,
+          capacity_estimate: data.capacity_estimate
         }
 
         queryClient.setQueryData(["solution"], solutionData)
@@ -318,6 +468,13 @@ const Solutions: React.FC<SolutionsProps> = ({
         setThoughtsData(solutionData.thoughts || null)
         setTimeComplexityData(solutionData.time_complexity || null)
         setSpaceComplexityData(solutionData.space_complexity || null)
+        setAnsweredBy(formatAnsweredBy(solutionData))
+        setComparisonData(solutionData.comparison || null)
+        setVotesData(solutionData.votes || null)
+        setHintsData(solutionData.hints || null)
+        setPreviewProps(solutionData.preview_props || null)
+        setSystemDesignData(toSystemDesignAnswer(solutionData))
+        setBenchmarkData(null)
 
         // Fetch latest screenshots when solution is successful
         const fetchScreenshots = async () => {
@@ -346,10 +503,15 @@ const Solutions: React.FC<SolutionsProps> = ({
         //we'll set the debug processing state to true and use that to render a little loader
         setDebugProcessing(true)
       }),
+      // Switch to the debug view as soon as the analysis starts streaming
+      window.electronAPI.onDebugChunk(() => {
+        setIsDebugStreaming(true)
+      }),
       //the first time debugging works, we'll set the view to debug and populate the cache with the data
       window.electronAPI.onDebugSuccess((data) => {
         queryClient.setQueryData(["new_solution"], data)
         setDebugProcessing(false)
+        setIsDebugStreaming(false)
       }),
       //when there was an error in the initial debugging, we'll show a toast and stop the little generating pulsing thing.
       window.electronAPI.onDebugError(() => {
@@ -359,6 +521,7 @@ const Solutions: React.FC<SolutionsProps> = ({
           "error"
         )
         setDebugProcessing(false)
+        setIsDebugStreaming(false)
       }),
       window.electronAPI.onProcessingNoScreenshots(() => {
         showToast(
@@ -394,12 +557,30 @@ const Solutions: React.FC<SolutionsProps> = ({
           thoughts: string[]
           time_complexity: string
           space_complexity: string
+          provider?: string
+          model?: string
+          comparison?: ComparisonSolution
+          votes?: VoteSummary
+          hints?: HintStep[]
+          preview_props?: string
+          architecture?: string
+          diagram?: string
+          data_model?: string
+          scalability?: string
+          tradeoffs?: string
+          capacity_estimate?: CapacityEstimate
         } | null
 
         setSolutionData(solution?.code ?? null)
         setThoughtsData(solution?.thoughts ?? null)
         setTimeComplexityData(solution?.time_complexity ?? null)
         setSpaceComplexityData(solution?.space_complexity ?? null)
+        setAnsweredBy(solution ? formatAnsweredBy(solution) : null)
+        setComparisonData(solution?.comparison ?? null)
+        setVotesData(solution?.votes ?? null)
+        setHintsData(solution?.hints ?? null)
+        setPreviewProps(solution?.preview_props ?? null)
+        setSystemDesignData(solution ? toSystemDesignAnswer(solution) : null)
       }
     })
     return () => unsubscribe()
@@ -440,9 +621,96 @@ const Solutions: React.FC<SolutionsProps> = ({
     }
   }
 
+  // System design answers have no code but are still complete answers
+  const hasAnswer = !!solutionData || !!systemDesignData
+
+  const streamingSolution = streamingContent
+    ? parsePartialSolution(streamingContent)
+    : null
+
+  // Only coding solutions in a language the sandbox runs can be timed
+  const canBenchmark =
+    interviewMode === "coding" && RUNNABLE_LANGUAGES.includes(currentLanguage)
+
+  const measureComplexity = async () => {
+    if (!solutionData) return
+    setIsBenchmarking(true)
+    try {
+      const result = await window.electronAPI.benchmarkComplexity(
+        solutionData,
+        currentLanguage,
+        timeComplexityData
+      )
+      if (result.success && result.data) {
+        setBenchmarkData(result.data)
+      } else {
+        showToast("Benchmark Failed", result.error || "Failed to measure the complexity", "error")
+      }
+    } catch (error) {
+      console.error("Error benchmarking solution:", error)
+      showToast("Benchmark Failed", "Failed to measure the complexity", "error")
+    } finally {
+      setIsBenchmarking(false)
+    }
+  }
+
+  // Thoughts, code and complexity of one solution; the primary one can
+  // have its complexity measured
+  const renderSolution = (
+    thoughtsTitle: string,
+    solution: {
+      code: string | null
+      thoughts: string[] | null
+      time_complexity: string | null
+      space_complexity: string | null
+    },
+    measurable = false
+  ) => (
+    <>
+      <ContentSection
+        title={thoughtsTitle}
+        content={
+          solution.thoughts && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                {solution.thoughts.map((thought, index) => (
+                  <div
+                    key={index}
+                    className="flex items-start gap-2"
+                  >
+                    <div className="w-1 h-1 rounded-full bg-blue-400/80 mt-2 shrink-0" />
+                    <div>{thought}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )
+        }
+        isLoading={!solution.thoughts}
+      />
+
+      <SolutionSection
+        title="Solution"
+        content={solution.code}
+        isLoading={!solution.code}
+        currentLanguage={currentLanguage}
+      />
+
+      <ComplexitySection
+        timeComplexity={solution.time_complexity}
+        spaceComplexity={solution.space_complexity}
+        isLoading={!solution.time_complexity || !solution.space_complexity}
+        benchmark={measurable ? benchmarkData : null}
+        isBenchmarking={measurable && isBenchmarking}
+        onBenchmark={measurable && canBenchmark ? measureComplexity : undefined}
+      />
+    </>
+  )
+
   return (
     <>
-      {!isResetting && queryClient.getQueryData(["new_solution"]) ? (
+      {!isResetting &&
+      (queryClient.getQueryData(["new_solution"]) || isDebugStreaming) ? (
         <Debug
           isProcessing={debugProcessing}
           setIsProcessing={setDebugProcessing}
@@ -452,8 +720,8 @@ const Solutions: React.FC<SolutionsProps> = ({
       ) : (
         <div ref={contentRef} className="relative">
           <div className="space-y-3 px-4 py-3">
-          {/* Conditionally render the screenshot queue if solutionData is available */}
-          {solutionData && (
+          {/* Conditionally render the screenshot queue once there is an answer */}
+          {hasAnswer && (
             <div className="bg-transparent w-fit">
               <div className="pb-3">
                 <div className="space-y-3 w-fit">
@@ -470,7 +738,7 @@ const Solutions: React.FC<SolutionsProps> = ({
           {/* Navbar of commands with the SolutionsHelper */}
           <SolutionCommands
             onTooltipVisibilityChange={handleTooltipVisibilityChange}
-            isProcessing={!problemStatementData || !solutionData}
+            isProcessing={!problemStatementData || !hasAnswer}
             extraScreenshots={extraScreenshots}
             credits={credits}
             currentLanguage={currentLanguage}
@@ -481,7 +749,7 @@ const Solutions: React.FC<SolutionsProps> = ({
           <div className="w-full text-sm text-black bg-black/60 rounded-md">
             <div className="rounded-lg overflow-hidden">
               <div className="px-4 py-3 space-y-4 max-w-full">
-                {!solutionData && (
+                {!hasAnswer && (
                   <>
                     <ContentSection
                       title="Problem Statement"
@@ -495,47 +763,225 @@ const Solutions: React.FC<SolutionsProps> = ({
                         </p>
                       </div>
                     )}
+
+                    {/* Partial solution rendered while tokens are streaming in */}
+                    {streamingSolution && streamingSolution.thoughts.length > 0 && (
+                      <ContentSection
+                        title="My Thoughts"
+                        content={
+                          <div className="space-y-1">
+                            {streamingSolution.thoughts.map((thought, index) => (
+                              <div key={index} className="flex items-start gap-2">
+                                <div className="w-1 h-1 rounded-full bg-blue-400/80 mt-2 shrink-0" />
+                                <div>{thought}</div>
+                              </div>
+                            ))}
+                          </div>
+                        }
+                        isLoading={false}
+                      />
+                    )}
+                    {streamingSolution?.code && (
+                      <SolutionSection
+                        title="Solution"
+                        content={streamingSolution.code}
+                        isLoading={false}
+                        currentLanguage={currentLanguage}
+                      />
+                    )}
                   </>
                 )}
 
-                {solutionData && (
+                {solutionData && hintsData && (
+                  <HintLadder
+                    key={solutionData}
+                    hints={hintsData}
+                    problemStatement={problemStatementData?.problem_statement || ""}
+                    finalStep={
+                      <>
+                        <SolutionSection
+                          title="Solution"
+                          content={solutionData}
+                          isLoading={false}
+                          currentLanguage={currentLanguage}
+                        />
+                        <ComplexitySection
+                          timeComplexity={timeComplexityData}
+                          spaceComplexity={spaceComplexityData}
+                          isLoading={!timeComplexityData || !spaceComplexityData}
+                        />
+                      </>
+                    }
+                  />
+                )}
+
+                {solutionData && !hintsData && !comparisonData && (
+                  <>
+                    {renderSolution(
+                      `My Thoughts (${COMMAND_KEY} + Arrow keys to scroll)`,
+                      {
+                        code: solutionData,
+                        thoughts: thoughtsData,
+                        time_complexity: timeComplexityData,
+                        space_complexity: spaceComplexityData
+                      },
+                      true
+                    )}
+
+                    {votesData && <AnswerConfidence votes={votesData} />}
+
+                    {answeredBy && (
+                      <div className="text-[11px] text-white/50">
+                        Answered by {answeredBy}
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {/* Compare mode: each provider's answer plus their differences */}
+                {solutionData && comparisonData && (
+                  <Tabs defaultValue="primary" className="w-full">
+                    <TabsList className="bg-black/50 border border-white/10 w-full grid grid-cols-3">
+                      <TabsTrigger
+                        value="primary"
+                        className="text-xs text-white/70 truncate data-[state=active]:bg-white/10 data-[state=active]:text-white"
+                      >
+                        {answeredBy || "Primary"}
+                      </TabsTrigger>
+                      <TabsTrigger
+                        value="comparison"
+                        className="text-xs text-white/70 truncate data-[state=active]:bg-white/10 data-[state=active]:text-white"
+                      >
+                        {formatAnsweredBy(comparisonData) || "Comparison"}
+                      </TabsTrigger>
+                      <TabsTrigger
+                        value="diff"
+                        disabled={!!comparisonData.error}
+                        className="text-xs text-white/70 data-[state=active]:bg-white/10 data-[state=active]:text-white"
+                      >
+                        Differences
+                      </TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="primary" className="space-y-4">
+                      {renderSolution(
+                        `My Thoughts (${COMMAND_KEY} + Arrow keys to scroll)`,
+                        {
+                          code: solutionData,
+                          thoughts: thoughtsData,
+                          time_complexity: timeComplexityData,
+                          space_complexity: spaceComplexityData
+                        },
+                        true
+                      )}
+                      {votesData && <AnswerConfidence votes={votesData} />}
+                    </TabsContent>
+                    <TabsContent value="comparison" className="space-y-4">
+                      {comparisonData.error ? (
+                        <p className="text-[13px] text-red-300">
+                          {comparisonData.error}
+                        </p>
+                      ) : (
+                        renderSolution("My Thoughts", {
+                          code: comparisonData.code ?? null,
+                          thoughts: comparisonData.thoughts ?? null,
+                          time_complexity: comparisonData.time_complexity ?? null,
+                          space_complexity: comparisonData.space_complexity ?? null
+                        })
+                      )}
+                    </TabsContent>
+                    <TabsContent value="diff">
+                      <SolutionComparison
+                        primary={{
+                          label: answeredBy || "Primary",
+                          code: solutionData,
+                          time_complexity: timeComplexityData,
+                          space_complexity: spaceComplexityData
+                        }}
+                        comparison={{
+                          label: formatAnsweredBy(comparisonData) || "Comparison",
+                          code: comparisonData.code,
+                          time_complexity: comparisonData.time_complexity,
+                          space_complexity: comparisonData.space_complexity
+                        }}
+                      />
+                    </TabsContent>
+                  </Tabs>
+                )}
+
+                {systemDesignData && (
                   <>
                     <ContentSection
-                      title={`My Thoughts (${COMMAND_KEY} + Arrow keys to scroll)`}
+                      title="Architecture"
+                      content={<div className="whitespace-pre-wrap">{systemDesignData.architecture}</div>}
+                      isLoading={false}
+                    />
+                    {systemDesignData.diagram && (
+                      <ArchitectureDiagram source={systemDesignData.diagram} />
+                    )}
+                    <ContentSection
+                      title="Key Components"
                       content={
-                        thoughtsData && (
-                          <div className="space-y-3">
-                            <div className="space-y-1">
-                              {thoughtsData.map((thought, index) => (
-                                <div
-                                  key={index}
-                                  className="flex items-start gap-2"
-                                >
-                                  <div className="w-1 h-1 rounded-full bg-blue-400/80 mt-2 shrink-0" />
-                                  <div>{thought}</div>
-                                </div>
-                              ))}
+                        <div className="space-y-1">
+                          {systemDesignData.components.map((component, index) => (
+                            <div key={index} className="flex items-start gap-2">
+                              <div className="w-1 h-1 rounded-full bg-blue-400/80 mt-2 shrink-0" />
+                              <div>{component}</div>
                             </div>
-                          </div>
-                        )
+                          ))}
+                        </div>
                       }
-                      isLoading={!thoughtsData}
+                      isLoading={false}
                     />
+                    {systemDesignData.capacity_estimate && (
+                      <CapacityCalculator
+                        key={systemDesignData.architecture}
+                        estimate={systemDesignData.capacity_estimate}
+                      />
+                    )}
+                    {[
+                      ["Data Model", systemDesignData.data_model],
+                      ["Scalability", systemDesignData.scalability],
+                      ["Tradeoffs", systemDesignData.tradeoffs]
+                    ].map(([title, text]) =>
+                      text ? (
+                        <ContentSection
+                          key={title}
+                          title={title}
+                          content={<div className="whitespace-pre-wrap">{text}</div>}
+                          isLoading={false}
+                        />
+                      ) : null
+                    )}
+                  </>
+                )}
 
-                    <SolutionSection
-                      title="Solution"
-                      content={solutionData}
-                      isLoading={!solutionData}
-                      currentLanguage={currentLanguage}
-                    />
+                {/* SQL answers run against the sample data in SQLite */}
+                {solutionData && interviewMode === "sql" && (
+                  <QueryResults query={solutionData} />
+                )}
 
-                    <ComplexitySection
-                      timeComplexity={timeComplexityData}
-                      spaceComplexity={spaceComplexityData}
-                      isLoading={!timeComplexityData || !spaceComplexityData}
-                    />
-                  </>
+                {/* React components render live in a sandboxed frame */}
+                {solutionData && interviewMode === "react" && (
+                  <ReactPreview
+                    key={solutionData}
+                    code={solutionData}
+                    initialProps={previewProps}
+                  />
                 )}
+
+                {/* Test cases, checked against in the local sandbox */}
+                {solutionData && interviewMode === "coding" && problemStatementData && (
+                  <TestCaseTable testCases={problemStatementData.test_cases || []} />
+                )}
+                {solutionData && interviewMode === "coding" && (
+                  <TestResults
+                    key={solutionData}
+                    code={solutionData}
+                    language={currentLanguage}
+                  />
+                )}
+
+                {hasAnswer && <FollowUpChat />}
               </div>
             </div>
           </div>
@@ -8,6 +8,7 @@ import {
   Network, 
   Terminal,
   CheckSquare,
+  Lightbulb,
   ChevronDown,
   ChevronUp,
   Info
@@ -84,6 +85,12 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({ currentMode, onChang
             name: 'Certification Exam', 
             description: 'Multiple choice, fill-in-blank, and other exam formats',
             icon: <CheckSquare size={16} />
+          },
+          { 
+            id: 'hints', 
+            name: 'Practice (Hints)', 
+            description: 'Coding problems answered as a ladder of hints, one step at a time',
+            icon: <Lightbulb size={16} />
           }
         ]);
       }
@@ -106,6 +113,8 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({ currentMode, onChang
         return <Terminal size={16} />;
       case 'certification':
         return <CheckSquare size={16} />;
+      case 'hints':
+        return <Lightbulb size={16} />;
       default:
         return <Code size={16} />;
     }
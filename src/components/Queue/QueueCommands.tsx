@@ -71,6 +71,7 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
   const getHelpText = () => {
     switch(interviewMode) {
       case 'coding':
+      case 'hints':
         return screenshotCount === 0
           ? "Take a screenshot of the coding problem"
           : "Take a screenshot of additional problem details";
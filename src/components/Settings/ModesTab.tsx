@@ -0,0 +1,282 @@
+import { useState, useEffect } from "react";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { useToast } from "../../contexts/toast";
+import { ModeProfile, ModelInfo, ModelProvider } from "../../types/electron";
+
+const PROVIDERS: Array<{ id: ModelProvider; label: string }> = [
+  { id: "openai", label: "OpenAI" },
+  { id: "claude", label: "Claude" },
+  { id: "gemini", label: "Gemini" },
+  { id: "local", label: "Local" },
+  { id: "azure", label: "Azure OpenAI" }
+];
+
+// Used for any field a profile leaves empty
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_MAX_TOKENS = 4000;
+
+const EMPTY_PROFILE: ModeProfile = {
+  provider: null,
+  extractionModel: "",
+  solutionModel: "",
+  temperature: null,
+  maxTokens: null
+};
+
+interface ModesTabProps {
+  modes: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Provider, models and parameters per interview mode, e.g. a cheap model
+ * for SQL and a large context model for system design
+ */
+export function ModesTab({ modes }: ModesTabProps) {
+  const [profiles, setProfiles] = useState<Record<string, Partial<ModeProfile>>>({});
+  const [selectedMode, setSelectedMode] = useState(modes[0]?.id || "coding");
+  const [activeProvider, setActiveProvider] = useState<ModelProvider>("openai");
+  const [modelCatalog, setModelCatalog] = useState<Record<string, ModelInfo[]>>({});
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      try {
+        const config = await window.electronAPI.getConfig();
+        setProfiles(config.modeProfiles || {});
+        setActiveProvider(config.activeProvider || "openai");
+        if (config.interviewMode) {
+          setSelectedMode(config.interviewMode);
+        }
+      } catch (error) {
+        console.error("Failed to load mode profiles:", error);
+        showToast("Error", "Failed to load mode profiles", "error");
+      }
+    };
+    loadProfiles();
+  }, []);
+
+  const profile: ModeProfile = { ...EMPTY_PROFILE, ...profiles[selectedMode] };
+
+  // Load the chosen provider's models the first time it is picked
+  useEffect(() => {
+    const provider = profile.provider;
+    if (!provider || modelCatalog[provider]) return;
+    const loadModels = async () => {
+      try {
+        const models: ModelInfo[] = await window.electronAPI.getAvailableModels(provider);
+        setModelCatalog(current => ({ ...current, [provider]: models }));
+      } catch (error) {
+        console.error(`Failed to load ${provider} models:`, error);
+      }
+    };
+    loadModels();
+  }, [profile.provider]);
+
+  const updateProfile = (updates: Partial<ModeProfile>) => {
+    setProfiles(current => ({
+      ...current,
+      [selectedMode]: { ...EMPTY_PROFILE, ...current[selectedMode], ...updates }
+    }));
+  };
+
+  // Models belong to a provider, so changing it clears them
+  const updateProvider = (value: string) => {
+    updateProfile({
+      provider: value ? (value as ModelProvider) : null,
+      extractionModel: "",
+      solutionModel: ""
+    });
+  };
+
+  // An empty field falls back to the default
+  const parseNumber = (value: string): number | null =>
+    value === "" || isNaN(Number(value)) ? null : Number(value);
+
+  const resetProfile = () => {
+    setProfiles(current => {
+      const next = { ...current };
+      delete next[selectedMode];
+      return next;
+    });
+  };
+
+  const saveProfiles = async () => {
+    try {
+      const result = await window.electronAPI.updateConfig({ modeProfiles: profiles });
+      if (result && "error" in result) {
+        showToast("Error", result.error, "error");
+        return;
+      }
+      showToast("Success", "Mode profiles saved", "success");
+    } catch (error) {
+      console.error("Failed to save mode profiles:", error);
+      showToast("Error", "Failed to save mode profiles", "error");
+    }
+  };
+
+  const models = profile.provider ? modelCatalog[profile.provider] || [] : [];
+  const activeProviderLabel = PROVIDERS.find(({ id }) => id === activeProvider)?.label;
+
+  const renderModelSelect = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    hint: string,
+    visionOnly: boolean
+  ) => {
+    const options = visionOnly ? models.filter(model => model.supportsVision) : models;
+    return (
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-white" htmlFor={id}>
+          {label}
+        </label>
+        <select
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={!profile.provider}
+          className="w-full bg-black/50 border border-white/10 text-white rounded px-3 py-2 text-sm disabled:opacity-50"
+        >
+          <option value="" className="bg-black text-white">
+            Provider's configured model
+          </option>
+          {/* Keep a saved model selectable even if the catalog no longer lists it */}
+          {value && !options.some(model => model.id === value) && (
+            <option value={value} className="bg-black text-white">
+              {value}
+            </option>
+          )}
+          {options.map(model => (
+            <option key={model.id} value={model.id} className="bg-black text-white">
+              {model.name}{model.supportsVision ? "" : " (text only)"}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-white/50">{hint}</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-white" htmlFor="profileMode">
+          Interview Mode
+        </label>
+        <select
+          id="profileMode"
+          value={selectedMode}
+          onChange={(e) => setSelectedMode(e.target.value)}
+          className="w-full bg-black/50 border border-white/10 text-white rounded px-3 py-2 text-sm"
+        >
+          {modes.map(mode => (
+            <option key={mode.id} value={mode.id} className="bg-black text-white">
+              {mode.name}{profiles[mode.id] ? " (custom)" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-white" htmlFor="profileProvider">
+          Provider
+        </label>
+        <select
+          id="profileProvider"
+          value={profile.provider || ""}
+          onChange={(e) => updateProvider(e.target.value)}
+          className="w-full bg-black/50 border border-white/10 text-white rounded px-3 py-2 text-sm"
+        >
+          <option value="" className="bg-black text-white">
+            Active provider ({activeProviderLabel})
+          </option>
+          {PROVIDERS.map(({ id, label }) => (
+            <option key={id} value={id} className="bg-black text-white">
+              {label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-white/50">
+          Pick a provider to choose its models. A provider without an API key falls back to the active one
+        </p>
+      </div>
+
+      {renderModelSelect(
+        "profileExtractionModel",
+        "Extraction Model",
+        profile.extractionModel,
+        (extractionModel) => updateProfile({ extractionModel }),
+        "Reads the screenshots and debug screenshots, so only vision models are listed",
+        true
+      )}
+
+      {renderModelSelect(
+        "profileSolutionModel",
+        "Solution Model",
+        profile.solutionModel,
+        (solutionModel) => updateProfile({ solutionModel }),
+        "Writes the solution from the extracted problem and may be text-only",
+        false
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white" htmlFor="profileTemperature">
+            Temperature
+          </label>
+          <Input
+            id="profileTemperature"
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={profile.temperature ?? ""}
+            placeholder={String(DEFAULT_TEMPERATURE)}
+            onChange={(e) => updateProfile({ temperature: parseNumber(e.target.value) })}
+            className="bg-black/50 border-white/10 text-white"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white" htmlFor="profileMaxTokens">
+            Max Tokens
+          </label>
+          <Input
+            id="profileMaxTokens"
+            type="number"
+            min={1}
+            step={500}
+            value={profile.maxTokens ?? ""}
+            placeholder={String(DEFAULT_MAX_TOKENS)}
+            onChange={(e) => updateProfile({ maxTokens: parseNumber(e.target.value) })}
+            className="bg-black/50 border-white/10 text-white"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-white/50">
+        Used for solutions and debugging in this mode. Leave empty for the defaults
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={resetProfile}
+          disabled={!profiles[selectedMode]}
+          className="text-xs border-white/10 hover:bg-white/5 text-white"
+        >
+          Reset Mode
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={saveProfiles}
+          className="text-xs border-white/10 hover:bg-white/5 text-white"
+        >
+          Save Profiles
+        </Button>
+      </div>
+    </div>
+  );
+}
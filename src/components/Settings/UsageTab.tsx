@@ -0,0 +1,315 @@
+import { useState, useEffect } from "react";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { useToast } from "../../contexts/toast";
+import {
+  BudgetLimit,
+  BudgetLimits,
+  ModelPrice,
+  UsageSummary,
+  UsageTotals
+} from "../../types/electron";
+
+const BUDGET_PERIODS: Array<{ id: keyof BudgetLimits; label: string }> = [
+  { id: "session", label: "Per session" },
+  { id: "daily", label: "Per day" },
+  { id: "monthly", label: "Per month" }
+];
+
+const NO_LIMITS: BudgetLimits = {
+  session: { soft: null, hard: null },
+  daily: { soft: null, hard: null },
+  monthly: { soft: null, hard: null }
+};
+
+const formatCost = (cost: number) =>
+  cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`;
+
+const formatTokens = (totals: UsageTotals) =>
+  (totals.promptTokens + totals.completionTokens).toLocaleString();
+
+/**
+ * Usage ledger totals, spending limits and the price table used to
+ * estimate costs
+ */
+export function UsageTab() {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [prices, setPrices] = useState<Record<string, ModelPrice>>({});
+  // Only prices the user set are saved, so catalog price updates still
+  // apply to every other model
+  const [priceOverrides, setPriceOverrides] = useState<Record<string, ModelPrice>>({});
+  const [editedPriceModels, setEditedPriceModels] = useState<Set<string>>(new Set());
+  const [newPriceModel, setNewPriceModel] = useState("");
+  const [budgets, setBudgets] = useState<BudgetLimits>(NO_LIMITS);
+  const { showToast } = useToast();
+
+  const loadSummary = async () => {
+    try {
+      const [usage, config] = await Promise.all([
+        window.electronAPI.getUsageSummary(),
+        window.electronAPI.getConfig()
+      ]);
+      setSummary(usage);
+      setPrices(usage.prices);
+      setPriceOverrides(config.modelPrices || {});
+      setEditedPriceModels(new Set());
+      setBudgets({ ...NO_LIMITS, ...config.budgets });
+    } catch (error) {
+      console.error("Failed to load usage:", error);
+      showToast("Error", "Failed to load usage", "error");
+    }
+  };
+
+  useEffect(() => {
+    loadSummary();
+  }, []);
+
+  const markPriceEdited = (model: string) => {
+    setEditedPriceModels(current => new Set(current).add(model));
+  };
+
+  const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    setPrices(current => ({
+      ...current,
+      [model]: { ...current[model], [field]: Number(value) || 0 }
+    }));
+    markPriceEdited(model);
+  };
+
+  const addPriceModel = (name: string) => {
+    const model = name.trim();
+    if (!model || prices[model]) return;
+    setPrices(current => ({ ...current, [model]: { input: 0, output: 0 } }));
+    markPriceEdited(model);
+    setNewPriceModel("");
+  };
+
+  // An empty field clears the limit
+  const updateBudget = (period: keyof BudgetLimits, field: keyof BudgetLimit, value: string) => {
+    setBudgets(current => ({
+      ...current,
+      [period]: { ...current[period], [field]: value === "" ? null : Math.max(0, Number(value) || 0) }
+    }));
+  };
+
+  const saveUsageSettings = async () => {
+    try {
+      const modelPrices = { ...priceOverrides };
+      for (const model of editedPriceModels) {
+        modelPrices[model] = prices[model];
+      }
+      await window.electronAPI.updateConfig({ modelPrices, budgets });
+      showToast("Success", "Limits and prices saved", "success");
+      loadSummary();
+    } catch (error) {
+      console.error("Failed to save usage settings:", error);
+      showToast("Error", "Failed to save usage settings", "error");
+    }
+  };
+
+  const clearUsage = async () => {
+    if (!window.confirm("Delete all recorded usage?")) return;
+    await window.electronAPI.clearUsage();
+    loadSummary();
+  };
+
+  if (!summary) {
+    return <p className="text-xs text-white/60">Loading usage...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Totals */}
+      <div className="grid grid-cols-3 gap-2">
+        {[
+          { label: "This session", totals: summary.session },
+          { label: "Today", totals: summary.today },
+          { label: "This month", totals: summary.month }
+        ].map(({ label, totals }) => (
+          <div key={label} className="p-3 rounded-lg bg-black/30 border border-white/10">
+            <p className="text-xs text-white/60">{label}</p>
+            <p className="text-lg font-medium text-white">{formatCost(totals.cost)}</p>
+            <p className="text-xs text-white/50">
+              {totals.requests} requests · {formatTokens(totals)} tokens
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Daily and monthly totals */}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-white">Daily</label>
+          <div className="max-h-40 overflow-y-auto rounded-lg bg-black/30 border border-white/10 p-2">
+            {summary.daily.length === 0 && (
+              <p className="text-xs text-white/50">No usage recorded yet</p>
+            )}
+            {summary.daily.map(day => (
+              <div key={day.date} className="flex justify-between text-xs text-white/80">
+                <span>{day.date}</span>
+                <span>{formatCost(day.cost)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-white">Monthly</label>
+          <div className="max-h-40 overflow-y-auto rounded-lg bg-black/30 border border-white/10 p-2">
+            {summary.monthly.length === 0 && (
+              <p className="text-xs text-white/50">No usage recorded yet</p>
+            )}
+            {summary.monthly.map(month => (
+              <div key={month.month} className="flex justify-between text-xs text-white/80">
+                <span>{month.month}</span>
+                <span>{formatCost(month.cost)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Per-model breakdown */}
+      {summary.byModel.length > 0 && (
+        <div className="space-y-1">
+          <label className="text-sm font-medium text-white">By Model</label>
+          <div className="rounded-lg bg-black/30 border border-white/10 p-2 space-y-1">
+            {summary.byModel.map(entry => (
+              <div key={`${entry.provider}/${entry.model}`} className="flex justify-between items-center text-xs text-white/80">
+                <span>{entry.provider} · {entry.model}</span>
+                <span className="flex items-center gap-2">
+                  {entry.requests} req · {formatTokens(entry)} tok ·{" "}
+                  {entry.unpriced ? (
+                    <button
+                      onClick={() => addPriceModel(entry.model)}
+                      disabled={!!prices[entry.model]}
+                      className="text-yellow-300 hover:underline disabled:no-underline disabled:text-white/50"
+                    >
+                      {prices[entry.model] ? "Price added below" : "No price, set one"}
+                    </button>
+                  ) : formatCost(entry.cost)}
+                </span>
+              </div>
+            ))}
+          </div>
+          {summary.unpricedModels.length > 0 && (
+            <p className="text-xs text-yellow-300/80">
+              Unpriced models are counted as free, so spending limits can't be enforced.
+              While you have any, a stop limit blocks new requests and a warn limit warns.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Spending limits */}
+      <div className="space-y-1">
+        <label className="text-sm font-medium text-white">
+          Spending Limits (USD)
+        </label>
+        <div className="rounded-lg bg-black/30 border border-white/10 p-2 space-y-1">
+          <div className="grid grid-cols-[1fr_80px_80px] gap-2 text-xs text-white/50">
+            <span>Period</span>
+            <span>Warn at</span>
+            <span>Stop at</span>
+          </div>
+          {BUDGET_PERIODS.map(({ id, label }) => (
+            <div key={id} className="grid grid-cols-[1fr_80px_80px] gap-2 items-center">
+              <span className="text-xs text-white/80">{label}</span>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={budgets[id].soft ?? ""}
+                placeholder="None"
+                onChange={(e) => updateBudget(id, "soft", e.target.value)}
+                className="h-7 bg-black/50 border-white/10 text-white text-xs"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={budgets[id].hard ?? ""}
+                placeholder="None"
+                onChange={(e) => updateBudget(id, "hard", e.target.value)}
+                className="h-7 bg-black/50 border-white/10 text-white text-xs"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-white/50">
+          New requests are blocked once a stop limit is reached
+        </p>
+      </div>
+
+      {/* Price table */}
+      <div className="space-y-1">
+        <label className="text-sm font-medium text-white">
+          Prices (USD per million tokens)
+        </label>
+        <div className="max-h-48 overflow-y-auto rounded-lg bg-black/30 border border-white/10 p-2 space-y-1">
+          <div className="grid grid-cols-[1fr_80px_80px] gap-2 text-xs text-white/50">
+            <span>Model</span>
+            <span>Input</span>
+            <span>Output</span>
+          </div>
+          {Object.entries(prices).map(([model, price]) => (
+            <div key={model} className="grid grid-cols-[1fr_80px_80px] gap-2 items-center">
+              <span className="text-xs text-white/80 truncate">{model}</span>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={price.input}
+                onChange={(e) => updatePrice(model, "input", e.target.value)}
+                className="h-7 bg-black/50 border-white/10 text-white text-xs"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={price.output}
+                onChange={(e) => updatePrice(model, "output", e.target.value)}
+                className="h-7 bg-black/50 border-white/10 text-white text-xs"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={newPriceModel}
+            onChange={(e) => setNewPriceModel(e.target.value)}
+            placeholder="Add a model id..."
+            className="h-8 bg-black/50 border-white/10 text-white text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => addPriceModel(newPriceModel)}
+            disabled={!newPriceModel.trim()}
+            className="text-xs border-white/10 hover:bg-white/5 text-white"
+          >
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-between">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={clearUsage}
+          className="text-xs border-white/10 hover:bg-white/5 text-white"
+        >
+          Clear History
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={saveUsageSettings}
+          className="text-xs border-white/10 hover:bg-white/5 text-white"
+        >
+          Save Limits & Prices
+        </Button>
+      </div>
+    </div>
+  );
+}
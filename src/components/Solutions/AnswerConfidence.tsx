@@ -0,0 +1,49 @@
+import React from "react"
+import { VoteSummary } from "../../types/solutions"
+
+/**
+ * Confidence in a voted certification answer and how the samples split
+ */
+export const AnswerConfidence = ({ votes }: { votes: VoteSummary }) => {
+  const confidence = Math.round(votes.confidence * 100)
+  const barColor =
+    confidence >= 80
+      ? "bg-green-400/80"
+      : confidence >= 50
+        ? "bg-yellow-400/80"
+        : "bg-red-400/80"
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-[13px] font-medium text-white tracking-wide">
+        Answer Confidence
+      </h2>
+      <p className="text-[11px] text-white/50">
+        {confidence}% of {votes.samples} sample
+        {votes.samples === 1 ? "" : "s"} agree
+      </p>
+      <div className="space-y-2">
+        {votes.distribution.map(({ answer, count }, index) => (
+          <div key={answer} className="space-y-1">
+            <div className="flex justify-between gap-2 text-[12px] text-gray-100">
+              <span className="truncate">{answer}</span>
+              <span className="shrink-0 text-white/60">
+                {count}/{votes.samples}
+              </span>
+            </div>
+            <div className="h-1.5 w-full rounded-full bg-white/10">
+              <div
+                className={`h-1.5 rounded-full ${
+                  index === 0 ? barColor : "bg-white/30"
+                }`}
+                style={{ width: `${(count / votes.samples) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default AnswerConfidence
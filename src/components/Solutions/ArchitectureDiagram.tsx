@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from "react"
+import { ZoomIn, ZoomOut } from "lucide-react"
+import { Button } from "../ui/button"
+import { useToast } from "../../contexts/toast"
+import {
+  renderDiagram,
+  RenderedDiagram,
+  toPngDataUrl,
+  toSvgFile
+} from "../../lib/diagram"
+
+interface ArchitectureDiagramProps {
+  // Mermaid source
+  source: string
+}
+
+const MIN_ZOOM = 0.25
+const MAX_ZOOM = 4
+const ZOOM_STEP = 1.25
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+
+/**
+ * System design diagram rendered locally from Mermaid, with zoom and
+ * export to SVG or PNG. Invalid source is shown as text with the error.
+ */
+export const ArchitectureDiagram = ({ source }: ArchitectureDiagramProps) => {
+  const [diagram, setDiagram] = useState<RenderedDiagram | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [zoom, setZoom] = useState(1)
+  const [isExporting, setIsExporting] = useState(false)
+  const { showToast } = useToast()
+
+  useEffect(() => {
+    let cancelled = false
+    setDiagram(null)
+    setError(null)
+    setZoom(1)
+
+    renderDiagram(source)
+      .then((rendered) => {
+        if (!cancelled) setDiagram(rendered)
+      })
+      .catch((err) => {
+        console.error("Error rendering diagram:", err)
+        if (!cancelled) setError(err?.message || "The diagram could not be rendered")
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [source])
+
+  // Ctrl or Cmd + scroll zooms, like in a browser
+  const handleWheel = (e: React.WheelEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return
+    setZoom((current) => clampZoom(e.deltaY < 0 ? current * ZOOM_STEP : current / ZOOM_STEP))
+  }
+
+  const exportDiagram = async (format: "svg" | "png") => {
+    if (!diagram) return
+    setIsExporting(true)
+    try {
+      const data = format === "svg" ? toSvgFile(diagram) : await toPngDataUrl(diagram)
+      const result = await window.electronAPI.exportDiagram(format, data)
+      if (result.success) {
+        showToast("Diagram Saved", result.path || "", "success")
+      } else if (!result.canceled) {
+        showToast("Export Failed", result.error || "Failed to save the diagram", "error")
+      }
+    } catch (err) {
+      console.error("Error exporting diagram:", err)
+      showToast("Export Failed", "Failed to save the diagram", "error")
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-[13px] font-medium text-white tracking-wide">Diagram</h2>
+        {diagram && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setZoom((current) => clampZoom(current / ZOOM_STEP))}
+              disabled={zoom <= MIN_ZOOM}
+              className="p-1 rounded text-white/70 hover:bg-white/10 disabled:opacity-40"
+              title="Zoom out"
+            >
+              <ZoomOut className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => setZoom(1)}
+              className="px-1 text-[11px] text-white/70 hover:text-white w-10"
+              title="Reset zoom"
+            >
+              {Math.round(zoom * 100)}%
+            </button>
+            <button
+              onClick={() => setZoom((current) => clampZoom(current * ZOOM_STEP))}
+              disabled={zoom >= MAX_ZOOM}
+              className="p-1 rounded text-white/70 hover:bg-white/10 disabled:opacity-40"
+              title="Zoom in"
+            >
+              <ZoomIn className="w-3.5 h-3.5" />
+            </button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportDiagram("svg")}
+              disabled={isExporting}
+              className="ml-1 text-xs border-white/10 hover:bg-white/5 text-white"
+            >
+              SVG
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportDiagram("png")}
+              disabled={isExporting}
+              className="text-xs border-white/10 hover:bg-white/5 text-white"
+            >
+              PNG
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error ? (
+        <div className="space-y-1">
+          <p className="text-[12px] text-red-300 whitespace-pre-wrap">{error}</p>
+          <pre className="text-[12px] text-gray-100 bg-black/50 rounded p-2 overflow-auto max-h-60">
+            {source}
+          </pre>
+        </div>
+      ) : diagram ? (
+        <div
+          onWheel={handleWheel}
+          className="max-h-96 overflow-auto rounded border border-white/10 p-2"
+        >
+          <div
+            style={{ width: diagram.width * zoom, height: diagram.height * zoom }}
+            className="[&>svg]:w-full [&>svg]:h-full"
+            // Mermaid's strict mode sanitizes the SVG it returns
+            dangerouslySetInnerHTML={{ __html: diagram.svg }}
+          />
+        </div>
+      ) : (
+        <p className="text-xs bg-gradient-to-r from-gray-300 via-gray-100 to-gray-300 bg-clip-text text-transparent animate-pulse">
+          Rendering diagram...
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default ArchitectureDiagram
@@ -0,0 +1,123 @@
+import React, { useState } from "react"
+import { Button } from "../ui/button"
+import { CapacityEstimate } from "../../types/solutions"
+import { estimateCapacity, formatBytes, formatCount } from "../../lib/capacity"
+
+interface CapacityCalculatorProps {
+  estimate: CapacityEstimate
+}
+
+type Assumption = Exclude<keyof CapacityEstimate, "notes">
+
+const ASSUMPTIONS: Array<{ key: Assumption; label: string; unit?: string }> = [
+  { key: "daily_active_users", label: "Daily active users" },
+  { key: "reads_per_user_per_day", label: "Reads per user", unit: "/day" },
+  { key: "writes_per_user_per_day", label: "Writes per user", unit: "/day" },
+  { key: "write_size_bytes", label: "Write size", unit: "bytes" },
+  { key: "read_size_bytes", label: "Read size", unit: "bytes" },
+  { key: "peak_to_average", label: "Peak / average", unit: "x" },
+  { key: "retention_years", label: "Retention", unit: "years" },
+  { key: "replication_factor", label: "Replicas", unit: "x" }
+]
+
+// Inputs are kept as text so a field can be cleared while typing
+const toInputs = (estimate: CapacityEstimate) =>
+  Object.fromEntries(
+    ASSUMPTIONS.map(({ key }) => [key, String(estimate[key])])
+  ) as Record<Assumption, string>
+
+/**
+ * Back-of-envelope QPS, bandwidth and storage from the answer's
+ * assumptions, recomputed as they are edited
+ */
+export const CapacityCalculator = ({ estimate }: CapacityCalculatorProps) => {
+  const [inputs, setInputs] = useState(() => toInputs(estimate))
+
+  const assumptions = { ...estimate }
+  for (const { key } of ASSUMPTIONS) {
+    const value = Number(inputs[key])
+    assumptions[key] = Number.isFinite(value) && value >= 0 ? value : 0
+  }
+  const figures = estimateCapacity(assumptions)
+  const edited = ASSUMPTIONS.some(({ key }) => assumptions[key] !== estimate[key])
+
+  const scaleTraffic = (factor: number) =>
+    setInputs((current) => ({
+      ...current,
+      daily_active_users: String(assumptions.daily_active_users * factor)
+    }))
+
+  const rows: Array<[string, string, string?]> = [
+    ["Read QPS", formatCount(figures.readQps), `${formatCount(figures.peakReadQps)} at peak`],
+    ["Write QPS", formatCount(figures.writeQps), `${formatCount(figures.peakWriteQps)} at peak`],
+    ["Ingress", `${formatBytes(figures.ingressBytesPerSecond)}/s`],
+    ["Egress", `${formatBytes(figures.egressBytesPerSecond)}/s`],
+    ["New storage", `${formatBytes(figures.storageBytesPerDay)}/day`],
+    [
+      "Total storage",
+      formatBytes(figures.totalStorageBytes),
+      `over ${assumptions.retention_years} years with ${assumptions.replication_factor}x replication`
+    ]
+  ]
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-[13px] font-medium text-white tracking-wide">Capacity Estimate</h2>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => scaleTraffic(10)}
+            className="text-xs border-white/10 hover:bg-white/5 text-white"
+          >
+            10x Traffic
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setInputs(toInputs(estimate))}
+            disabled={!edited}
+            className="text-xs border-white/10 hover:bg-white/5 text-white"
+          >
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+        {ASSUMPTIONS.map(({ key, label, unit }) => (
+          <label key={key} className="flex items-center justify-between gap-2 text-[12px] text-white/70">
+            <span className="truncate">{label}</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                value={inputs[key]}
+                onChange={(e) => setInputs((current) => ({ ...current, [key]: e.target.value }))}
+                className="w-24 bg-black/50 border border-white/10 rounded px-1.5 py-0.5 text-right text-white font-mono focus:outline-none focus:border-white/30"
+              />
+              <span className="w-9 text-[11px] text-white/40">{unit}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <table className="w-full text-[12px] text-gray-100">
+        <tbody>
+          {rows.map(([label, value, detail]) => (
+            <tr key={label} className="border-t border-white/5">
+              <td className="py-1 pr-2 text-white/60">{label}</td>
+              <td className="py-1 pr-2 font-mono">{value}</td>
+              <td className="py-1 text-[11px] text-white/40">{detail}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {estimate.notes && <p className="text-[11px] text-white/50">{estimate.notes}</p>}
+    </div>
+  )
+}
+
+export default CapacityCalculator
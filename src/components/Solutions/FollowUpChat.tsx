@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from "react"
+import { Input } from "../ui/input"
+import { Button } from "../ui/button"
+import { useToast } from "../../contexts/toast"
+import { FollowUpMessage } from "../../types/electron"
+
+/**
+ * Follow-up questions about the current solution, e.g. "why not use a
+ * heap?". The thread lives in the main process with the session, so it
+ * survives switching views until the next reset or solution.
+ */
+export const FollowUpChat = () => {
+  const [messages, setMessages] = useState<FollowUpMessage[]>([])
+  const [question, setQuestion] = useState("")
+  // Question being answered and the answer streamed so far
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null)
+  const [streamingAnswer, setStreamingAnswer] = useState("")
+  const { showToast } = useToast()
+
+  useEffect(() => {
+    window.electronAPI
+      .getFollowUpThread()
+      .then((thread: FollowUpMessage[]) => setMessages(thread))
+      .catch((error: unknown) => {
+        console.error("Error loading follow-up thread:", error)
+      })
+
+    return window.electronAPI.onFollowUpChunk((content: string) => {
+      setStreamingAnswer(content)
+    })
+  }, [])
+
+  const askQuestion = async () => {
+    const text = question.trim()
+    if (!text || pendingQuestion) return
+
+    setPendingQuestion(text)
+    setStreamingAnswer("")
+    setQuestion("")
+    try {
+      const result = await window.electronAPI.askFollowUp(text)
+      if (result.success && result.data) {
+        setMessages(result.data)
+      } else {
+        showToast("Follow-up Failed", result.error || "Failed to answer the question", "error")
+        setQuestion(text)
+      }
+    } catch (error) {
+      console.error("Error asking follow-up:", error)
+      showToast("Follow-up Failed", "Failed to answer the question", "error")
+      setQuestion(text)
+    } finally {
+      setPendingQuestion(null)
+      setStreamingAnswer("")
+    }
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault()
+      askQuestion()
+    }
+  }
+
+  const renderMessage = (message: FollowUpMessage, key: React.Key) => (
+    <div
+      key={key}
+      className={`text-[13px] leading-[1.4] whitespace-pre-wrap ${
+        message.role === "user" ? "text-white font-medium" : "text-gray-100"
+      }`}
+    >
+      {message.role === "user" ? `> ${message.content}` : message.content}
+    </div>
+  )
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-[13px] font-medium text-white tracking-wide">
+        Follow-up Questions
+      </h2>
+      {(messages.length > 0 || pendingQuestion) && (
+        <div className="space-y-3 max-w-[600px]">
+          {messages.map((message, index) => renderMessage(message, index))}
+          {pendingQuestion && (
+            <>
+              {renderMessage({ role: "user", content: pendingQuestion }, "pending")}
+              {streamingAnswer ? (
+                renderMessage({ role: "assistant", content: streamingAnswer }, "streaming")
+              ) : (
+                <p className="text-xs bg-gradient-to-r from-gray-300 via-gray-100 to-gray-300 bg-clip-text text-transparent animate-pulse">
+                  Thinking...
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Ask about this solution, e.g. why not use a heap?"
+          disabled={!!pendingQuestion}
+          className="bg-black/50 border-white/10 text-white text-xs"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={askQuestion}
+          disabled={!question.trim() || !!pendingQuestion}
+          className="text-xs border-white/10 hover:bg-white/5 text-white"
+        >
+          Ask
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default FollowUpChat
@@ -0,0 +1,70 @@
+import React, { useState } from "react"
+import { Button } from "../ui/button"
+import { HintStep } from "../../types/solutions"
+
+interface HintLadderProps {
+  hints: HintStep[]
+  // Identifies the problem in the hints ledger
+  problemStatement: string
+  // Shown in place of the last step's text, e.g. the highlighted solution
+  finalStep?: React.ReactNode
+}
+
+/**
+ * Practice mode: reveals the hints one step at a time, from a nudge up to
+ * the full code, and records how many were needed for the problem
+ */
+export const HintLadder = ({ hints, problemStatement, finalStep }: HintLadderProps) => {
+  const [revealed, setRevealed] = useState(0)
+
+  const revealNext = () => {
+    const next = Math.min(revealed + 1, hints.length)
+    setRevealed(next)
+    window.electronAPI
+      .recordHintsUsed(problemStatement, next, hints.length)
+      .catch((error: unknown) => console.error("Error recording hints used:", error))
+  }
+
+  const nextStep = hints[revealed]
+
+  return (
+    <div className="space-y-4">
+      {hints.slice(0, revealed).map((hint, index) => (
+        <div key={hint.level} className="space-y-2">
+          <h2 className="text-[13px] font-medium text-white tracking-wide">
+            {index + 1}. {hint.level}
+          </h2>
+          {index === hints.length - 1 && finalStep ? (
+            finalStep
+          ) : (
+            <div
+              className={`text-[13px] leading-[1.4] text-gray-100 max-w-[600px] whitespace-pre-wrap ${
+                hint.level === "Pseudocode" ? "font-mono text-[12px]" : ""
+              }`}
+            >
+              {hint.content}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[11px] text-white/50">
+          Hints used: {revealed} of {hints.length}
+        </span>
+        {nextStep && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={revealNext}
+            className="text-xs border-white/10 hover:bg-white/5 text-white"
+          >
+            {revealed === 0 ? "Show a Hint" : `Reveal ${nextStep.level}`}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default HintLadder
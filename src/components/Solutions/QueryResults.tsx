@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from "react"
+import { Check, X } from "lucide-react"
+import { Button } from "../ui/button"
+import { SqlQueryCheck } from "../../types/electron"
+
+interface QueryResultsProps {
+  query: string
+}
+
+const ResultGrid = ({
+  columns,
+  rows
+}: {
+  columns: string[]
+  rows: Array<Array<string | number | null>>
+}) => (
+  <div className="max-h-60 overflow-auto rounded border border-white/10">
+    <table className="w-full text-[12px] text-gray-100 font-mono">
+      {columns.length > 0 && (
+        <thead className="bg-white/5 text-left text-white/60">
+          <tr>
+            {columns.map((column, index) => (
+              <th key={index} className="px-2 py-1 font-normal">
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+      )}
+      <tbody>
+        {rows.map((row, rowIndex) => (
+          <tr key={rowIndex} className="border-t border-white/5">
+            {row.map((value, index) => (
+              <td key={index} className="px-2 py-1 whitespace-nowrap">
+                {value === null ? <span className="text-white/40">NULL</span> : String(value)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    {rows.length === 0 && (
+      <p className="px-2 py-1 text-[12px] text-white/40">No rows</p>
+    )}
+  </div>
+)
+
+/**
+ * Runs a SQL answer against the problem's sample data as soon as it is
+ * shown, and compares the rows with the expected output
+ */
+export const QueryResults = ({ query }: QueryResultsProps) => {
+  const [check, setCheck] = useState<SqlQueryCheck | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+
+  const runQuery = async () => {
+    setIsRunning(true)
+    setError(null)
+    try {
+      const result = await window.electronAPI.runSqlQuery(query)
+      if (result.success && result.data) {
+        setCheck(result.data)
+      } else {
+        setError(result.error || "Failed to run the query")
+      }
+    } catch (err) {
+      console.error("Error running query:", err)
+      setError("Failed to run the query")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  useEffect(() => {
+    runQuery()
+  }, [query])
+
+  const failure = error || check?.setupError || check?.error
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="flex items-center gap-2 text-[13px] font-medium text-white tracking-wide">
+          Result on the Sample Data
+          {check?.matchesExpected === true && (
+            <span className="flex items-center gap-1 text-[11px] font-normal text-green-400">
+              <Check className="w-3.5 h-3.5" /> matches the expected output
+            </span>
+          )}
+          {check?.matchesExpected === false && (
+            <span className="flex items-center gap-1 text-[11px] font-normal text-red-400">
+              <X className="w-3.5 h-3.5" /> differs from the expected output
+            </span>
+          )}
+        </h2>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={runQuery}
+          disabled={isRunning}
+          className="text-xs border-white/10 hover:bg-white/5 text-white"
+        >
+          {isRunning ? "Running..." : "Run Again"}
+        </Button>
+      </div>
+
+      {isRunning && !check && (
+        <p className="text-xs bg-gradient-to-r from-gray-300 via-gray-100 to-gray-300 bg-clip-text text-transparent animate-pulse">
+          Running the query in SQLite...
+        </p>
+      )}
+
+      {check?.dialectWarnings.map((warning, index) => (
+        <p key={index} className="text-[11px] text-yellow-300/80">
+          {warning}
+        </p>
+      ))}
+
+      {failure ? (
+        <p className="text-[12px] text-red-300 whitespace-pre-wrap">
+          {check?.setupError ? `Could not build the sample tables: ${failure}` : failure}
+        </p>
+      ) : (
+        check && (
+          <>
+            <ResultGrid columns={check.columns} rows={check.rows} />
+            {check.truncated && (
+              <p className="text-[11px] text-white/40">Showing the first {check.rows.length} rows</p>
+            )}
+          </>
+        )
+      )}
+
+      {check?.expected && check.matchesExpected !== true && (
+        <div className="space-y-1">
+          <div className="text-[11px] text-white/50">Expected</div>
+          <ResultGrid columns={check.expected.columns} rows={check.expected.rows} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default QueryResults
@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useRef, useState } from "react"
+import { Button } from "../ui/button"
+import {
+  buildPreviewDocument,
+  compileComponent,
+  PREVIEW_MESSAGE_SOURCE,
+  PreviewMessage
+} from "../../lib/reactPreview"
+
+interface ReactPreviewProps {
+  code: string
+  // JSON object of props built from the problem's sample data
+  initialProps?: string | null
+}
+
+const parseProps = (text: string | null | undefined): Record<string, unknown> | null => {
+  try {
+    const props = JSON.parse(text || "{}")
+    return props && typeof props === "object" && !Array.isArray(props) ? props : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Live preview of a React solution in a sandboxed frame: scripts run in an
+ * opaque origin with no access to the app, and the frame's content policy
+ * blocks every network request. Props can be edited and re-applied.
+ */
+export const ReactPreview = ({ code, initialProps }: ReactPreviewProps) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null)
+  const startingProps = parseProps(initialProps) || {}
+  const [propsText, setPropsText] = useState(JSON.stringify(startingProps, null, 2))
+  const [propsError, setPropsError] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Rebuilt only for new code; props changes are posted to the frame
+  const preview = useMemo(() => {
+    try {
+      return { document: buildPreviewDocument(compileComponent(code), startingProps) }
+    } catch (err: any) {
+      return { compileError: err?.message || "The code could not be compiled" }
+    }
+  }, [code])
+
+  useEffect(() => {
+    setError(null)
+    setPropsError(null)
+    setPropsText(JSON.stringify(startingProps, null, 2))
+  }, [code])
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent<PreviewMessage>) => {
+      if (event.source !== iframeRef.current?.contentWindow) return
+      if (event.data?.source !== PREVIEW_MESSAGE_SOURCE) return
+
+      if (event.data.type === "rendered") {
+        setError(null)
+      } else if (event.data.type === "error") {
+        // The first error is the cause; later ones tend to follow from it
+        setError((current) => current ?? event.data.message ?? "Unknown error")
+      }
+    }
+    window.addEventListener("message", handleMessage)
+    return () => window.removeEventListener("message", handleMessage)
+  }, [])
+
+  const applyProps = () => {
+    const props = parseProps(propsText)
+    if (!props) {
+      setPropsError("Props must be a JSON object")
+      return
+    }
+    setPropsError(null)
+    iframeRef.current?.contentWindow?.postMessage(
+      { source: PREVIEW_MESSAGE_SOURCE, type: "props", props },
+      "*"
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-[13px] font-medium text-white tracking-wide">Preview</h2>
+
+      {preview.compileError ? (
+        <p className="text-[12px] text-red-300 whitespace-pre-wrap font-mono">
+          {preview.compileError}
+        </p>
+      ) : (
+        <iframe
+          ref={iframeRef}
+          title="React preview"
+          sandbox="allow-scripts"
+          srcDoc={preview.document}
+          className="w-full h-64 rounded-md bg-white border border-white/10"
+        />
+      )}
+
+      {error && (
+        <p className="text-[12px] text-red-300 whitespace-pre-wrap font-mono">{error}</p>
+      )}
+
+      <div className="space-y-1">
+        <div className="text-[11px] text-white/50">Props</div>
+        <textarea
+          value={propsText}
+          onChange={(e) => setPropsText(e.target.value)}
+          rows={4}
+          spellCheck={false}
+          className="w-full bg-black/50 border border-white/10 rounded px-2 py-1 text-[12px] text-white font-mono resize-y focus:outline-none focus:border-white/30"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[11px] text-red-300">{propsError}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={applyProps}
+            disabled={!!preview.compileError}
+            className="text-xs border-white/10 hover:bg-white/5 text-white"
+          >
+            Apply Props
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ReactPreview
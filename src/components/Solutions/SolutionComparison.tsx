@@ -0,0 +1,136 @@
+import React from "react"
+import { diffLines } from "diff"
+
+interface ComparedSolution {
+  label: string
+  code?: string | null
+  time_complexity?: string | null
+  space_complexity?: string | null
+}
+
+/**
+ * Big O notation from a complexity explanation, normalized so equivalent
+ * spellings compare equal, e.g. "O(N log N)" and "O(nlogn)"
+ */
+const extractBigO = (complexity?: string | null): string | null => {
+  const match = complexity?.match(/O\((?:[^()]|\([^()]*\))*\)/i)
+  return match ? match[0] : null
+}
+
+const normalizeBigO = (notation: string): string =>
+  notation.toLowerCase().replace(/\s+|\*|·/g, "")
+
+/**
+ * One line per complexity dimension saying whether the two answers agree
+ */
+const describeComplexityAgreement = (
+  dimension: string,
+  first: { label: string; complexity?: string | null },
+  second: { label: string; complexity?: string | null }
+): { agree: boolean; text: string } => {
+  const firstBigO = extractBigO(first.complexity)
+  const secondBigO = extractBigO(second.complexity)
+
+  if (!firstBigO || !secondBigO) {
+    return { agree: true, text: `${dimension}: not stated by both` }
+  }
+  if (normalizeBigO(firstBigO) === normalizeBigO(secondBigO)) {
+    return { agree: true, text: `${dimension}: both say ${firstBigO}` }
+  }
+  return {
+    agree: false,
+    text: `${dimension}: ${first.label} says ${firstBigO}, ${second.label} says ${secondBigO}`
+  }
+}
+
+/**
+ * Summary of where two solutions disagree on complexity, followed by a
+ * line diff of their code
+ */
+export const SolutionComparison = ({
+  primary,
+  comparison
+}: {
+  primary: ComparedSolution
+  comparison: ComparedSolution
+}) => {
+  const changes = diffLines(primary.code || "", comparison.code || "")
+  const countLines = (value: string) => value.replace(/\n$/, "").split("\n").length
+  const added = changes
+    .filter((change) => change.added)
+    .reduce((total, change) => total + countLines(change.value), 0)
+  const removed = changes
+    .filter((change) => change.removed)
+    .reduce((total, change) => total + countLines(change.value), 0)
+
+  const agreement = [
+    describeComplexityAgreement(
+      "Time",
+      { label: primary.label, complexity: primary.time_complexity },
+      { label: comparison.label, complexity: comparison.time_complexity }
+    ),
+    describeComplexityAgreement(
+      "Space",
+      { label: primary.label, complexity: primary.space_complexity },
+      { label: comparison.label, complexity: comparison.space_complexity }
+    )
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h2 className="text-[13px] font-medium text-white tracking-wide">
+          Complexity Agreement
+        </h2>
+        <div className="space-y-1">
+          {agreement.map(({ agree, text }) => (
+            <div
+              key={text}
+              className="flex items-start gap-2 text-[13px] leading-[1.4] text-gray-100"
+            >
+              <div
+                className={`w-1 h-1 rounded-full mt-2 shrink-0 ${
+                  agree ? "bg-green-400/80" : "bg-yellow-400/80"
+                }`}
+              />
+              <div>{text}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h2 className="text-[13px] font-medium text-white tracking-wide">
+          Code Differences
+        </h2>
+        <p className="text-[11px] text-white/50">
+          {added === 0 && removed === 0
+            ? "Both solutions have identical code"
+            : `${removed} line${removed === 1 ? "" : "s"} only in ${primary.label}, ${added} only in ${comparison.label}`}
+        </p>
+        <pre className="text-[12px] leading-[1.4] font-mono rounded-md p-3 bg-[rgba(22,27,34,0.5)] whitespace-pre-wrap break-all">
+          {changes.map((change, index) => {
+            const prefix = change.added ? "+ " : change.removed ? "- " : "  "
+            const lines = change.value.replace(/\n$/, "").split("\n")
+            return (
+              <span
+                key={index}
+                className={
+                  change.added
+                    ? "block bg-green-500/15 text-green-200"
+                    : change.removed
+                      ? "block bg-red-500/15 text-red-200"
+                      : "block text-gray-300"
+                }
+              >
+                {lines.map((line) => prefix + line).join("\n")}
+              </span>
+            )
+          })}
+        </pre>
+      </div>
+    </div>
+  )
+}
+
+export default SolutionComparison
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react"
+import { Button } from "../ui/button"
+import { useToast } from "../../contexts/toast"
+import { ProblemStatementData, TestCase } from "../../types/solutions"
+
+const CATEGORIES: TestCase["category"][] = ["example", "normal", "edge", "large"]
+
+const cellInputClass =
+  "w-full bg-black/50 border border-white/10 rounded px-1.5 py-1 text-[12px] text-white font-mono resize-y focus:outline-none focus:border-white/30"
+
+interface TestCaseTableProps {
+  testCases: TestCase[]
+}
+
+/**
+ * Collapsible, editable list of the problem's test cases. Edits are saved
+ * to the main process, where they become the input set of the next test run.
+ */
+export const TestCaseTable = ({ testCases }: TestCaseTableProps) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [cases, setCases] = useState<TestCase[]>(testCases)
+  // Once the user has changed the list, cases arriving later don't replace it
+  const [isEdited, setIsEdited] = useState(false)
+  const queryClient = useQueryClient()
+  const { showToast } = useToast()
+
+  // Generated cases arrive after the table is first shown
+  useEffect(() => {
+    if (!isEdited) setCases(testCases)
+  }, [testCases])
+
+  const save = async (next: TestCase[]) => {
+    setIsEdited(true)
+    setCases(next)
+    try {
+      const result = await window.electronAPI.setTestCases(next)
+      if (!result.success) {
+        showToast("Error", result.error || "Failed to save the test cases", "error")
+        return
+      }
+      // Keep the cached problem in step so the edits survive a remount
+      queryClient.setQueryData(
+        ["problem_statement"],
+        (problem: ProblemStatementData | null | undefined) =>
+          problem ? { ...problem, test_cases: next } : problem
+      )
+    } catch (error) {
+      console.error("Error saving test cases:", error)
+      showToast("Error", "Failed to save the test cases", "error")
+    }
+  }
+
+  const updateCase = (index: number, changes: Partial<TestCase>) => {
+    setIsEdited(true)
+    setCases((current) =>
+      current.map((testCase, i) => (i === index ? { ...testCase, ...changes } : testCase))
+    )
+  }
+
+  const addCase = () => {
+    setIsOpen(true)
+    save([...cases, { input: "", expected_output: "", category: "normal", description: "" }])
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-1 text-[13px] font-medium text-white tracking-wide"
+        >
+          {isOpen ? (
+            <ChevronDown className="w-3.5 h-3.5" />
+          ) : (
+            <ChevronRight className="w-3.5 h-3.5" />
+          )}
+          Test Cases ({cases.length})
+        </button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addCase}
+          className="text-xs border-white/10 hover:bg-white/5 text-white"
+        >
+          Add Case
+        </Button>
+      </div>
+
+      {isOpen && cases.length > 0 && (
+        <table className="w-full text-[12px] text-gray-100 border-separate border-spacing-1">
+          <thead>
+            <tr className="text-left text-[11px] text-white/50">
+              <th className="font-normal w-24">Category</th>
+              <th className="font-normal">Input</th>
+              <th className="font-normal">Expected Output</th>
+              <th className="w-6" />
+            </tr>
+          </thead>
+          <tbody>
+            {cases.map((testCase, index) => (
+              <tr key={index} className="align-top">
+                <td className="space-y-1">
+                  <select
+                    value={testCase.category}
+                    onChange={(e) =>
+                      save(
+                        cases.map((other, i) =>
+                          i === index
+                            ? { ...other, category: e.target.value as TestCase["category"] }
+                            : other
+                        )
+                      )
+                    }
+                    className={cellInputClass}
+                  >
+                    {CATEGORIES.map((category) => (
+                      <option key={category} value={category}>
+                        {category}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={testCase.description}
+                    onChange={(e) => updateCase(index, { description: e.target.value })}
+                    onBlur={() => save(cases)}
+                    placeholder="Description"
+                    className={cellInputClass}
+                  />
+                </td>
+                <td>
+                  <textarea
+                    value={testCase.input}
+                    onChange={(e) => updateCase(index, { input: e.target.value })}
+                    onBlur={() => save(cases)}
+                    rows={2}
+                    className={cellInputClass}
+                  />
+                </td>
+                <td>
+                  <textarea
+                    value={testCase.expected_output}
+                    onChange={(e) => updateCase(index, { expected_output: e.target.value })}
+                    onBlur={() => save(cases)}
+                    rows={2}
+                    className={cellInputClass}
+                  />
+                </td>
+                <td>
+                  <button
+                    onClick={() => save(cases.filter((_, i) => i !== index))}
+                    className="p-1 text-white/50 hover:text-red-300"
+                    title="Remove case"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+export default TestCaseTable
@@ -0,0 +1,149 @@
+import React, { useState } from "react"
+import { Check, X } from "lucide-react"
+import { Button } from "../ui/button"
+import { useToast } from "../../contexts/toast"
+import { TestRunSummary } from "../../types/electron"
+
+// Languages the local sandbox can build and run
+export const RUNNABLE_LANGUAGES = ["python", "javascript", "java", "golang", "cpp"]
+
+interface TestResultsProps {
+  code: string
+  language: string
+}
+
+const OutputBlock = ({ label, text }: { label: string; text: string }) => (
+  <div>
+    <div className="text-[11px] text-white/50">{label}</div>
+    <pre className="text-[12px] text-gray-100 bg-black/40 rounded px-2 py-1 whitespace-pre-wrap break-all max-h-32 overflow-y-auto">
+      {text || "(none)"}
+    </pre>
+  </div>
+)
+
+/**
+ * Runs the solution locally against the problem's test cases, shows which
+ * pass, and can ask for a fix for the failures
+ */
+export const TestResults = ({ code, language }: TestResultsProps) => {
+  const [summary, setSummary] = useState<TestRunSummary | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [isFixing, setIsFixing] = useState(false)
+  const { showToast } = useToast()
+
+  if (!RUNNABLE_LANGUAGES.includes(language)) return null
+
+  const runTests = async () => {
+    setIsRunning(true)
+    try {
+      const result = await window.electronAPI.runTests(code, language)
+      if (result.success && result.data) {
+        setSummary(result.data)
+      } else {
+        showToast("Test Run Failed", result.error || "Failed to run the tests", "error")
+      }
+    } catch (error) {
+      console.error("Error running tests:", error)
+      showToast("Test Run Failed", "Failed to run the tests", "error")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const fixSolution = async () => {
+    if (!summary) return
+    setIsFixing(true)
+    try {
+      // On success the new solution replaces this one through the solution events
+      const result = await window.electronAPI.fixSolution(code, summary)
+      if (!result.success && result.error) {
+        console.warn("Fix solution failed:", result.error)
+      }
+    } catch (error) {
+      console.error("Error fixing solution:", error)
+      showToast("Fix Failed", "Failed to fix the solution", "error")
+    } finally {
+      setIsFixing(false)
+    }
+  }
+
+  const results = summary?.results || []
+  const passed = results.filter((result) => result.passed).length
+  const hasFailures = !!summary && (!!summary.compileError || passed < results.length)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-[13px] font-medium text-white tracking-wide">
+          Tests
+          {summary && !summary.compileError && (
+            <span className="ml-2 text-[11px] font-normal text-white/50">
+              {passed} of {results.length} passed
+            </span>
+          )}
+        </h2>
+        <div className="flex gap-2">
+          {hasFailures && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={fixSolution}
+              disabled={isRunning || isFixing}
+              className="text-xs border-white/10 hover:bg-white/5 text-white"
+            >
+              {isFixing ? "Fixing..." : "Fix It"}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={runTests}
+            disabled={isRunning || isFixing}
+            className="text-xs border-white/10 hover:bg-white/5 text-white"
+          >
+            {isRunning ? "Running..." : summary ? "Run Again" : "Run Tests"}
+          </Button>
+        </div>
+      </div>
+
+      {summary && !summary.networkIsolated && (
+        <p className="text-[11px] text-yellow-300/80">
+          The tests ran without a sandbox, with network access and access to your files.
+        </p>
+      )}
+
+      {summary?.compileError && (
+        <OutputBlock label="Compilation failed" text={summary.compileError} />
+      )}
+
+      {results.length > 0 && (
+        <div className="space-y-2 max-w-[600px]">
+          {results.map((result, index) => (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-2 text-[13px]">
+                {result.passed ? (
+                  <Check className="w-3.5 h-3.5 text-green-400 shrink-0" />
+                ) : (
+                  <X className="w-3.5 h-3.5 text-red-400 shrink-0" />
+                )}
+                <span className="text-gray-100">{result.description || `Case ${index + 1}`}</span>
+                <span className="text-[11px] text-white/40">{result.category}</span>
+                <span className="text-[11px] text-white/40">{result.durationMs} ms</span>
+              </div>
+              {!result.passed && (
+                <div className="pl-5 space-y-1">
+                  <OutputBlock label="Input" text={result.input} />
+                  <OutputBlock label="Expected" text={result.expectedOutput} />
+                  <OutputBlock label="Actual" text={result.actualOutput} />
+                  {result.error && <OutputBlock label="Error" text={result.error} />}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TestResults
@@ -0,0 +1,68 @@
+// src/lib/capacity.ts
+import { CapacityEstimate } from "../types/solutions"
+
+const SECONDS_PER_DAY = 86400
+const DAYS_PER_YEAR = 365
+
+/**
+ * Load and storage derived from the assumptions of an estimate
+ */
+export interface CapacityFigures {
+  readQps: number
+  writeQps: number
+  peakReadQps: number
+  peakWriteQps: number
+  // Bytes per second written to and served by the system, on average
+  ingressBytesPerSecond: number
+  egressBytesPerSecond: number
+  // New data per day, and everything kept over the retention period,
+  // counting every replica
+  storageBytesPerDay: number
+  totalStorageBytes: number
+}
+
+/**
+ * Back-of-envelope QPS, bandwidth and storage for the assumptions
+ */
+export function estimateCapacity(assumptions: CapacityEstimate): CapacityFigures {
+  const readsPerDay = assumptions.daily_active_users * assumptions.reads_per_user_per_day
+  const writesPerDay = assumptions.daily_active_users * assumptions.writes_per_user_per_day
+  const readQps = readsPerDay / SECONDS_PER_DAY
+  const writeQps = writesPerDay / SECONDS_PER_DAY
+  const storageBytesPerDay =
+    writesPerDay * assumptions.write_size_bytes * assumptions.replication_factor
+
+  return {
+    readQps,
+    writeQps,
+    peakReadQps: readQps * assumptions.peak_to_average,
+    peakWriteQps: writeQps * assumptions.peak_to_average,
+    ingressBytesPerSecond: writeQps * assumptions.write_size_bytes,
+    egressBytesPerSecond: readQps * assumptions.read_size_bytes,
+    storageBytesPerDay,
+    totalStorageBytes: storageBytesPerDay * DAYS_PER_YEAR * assumptions.retention_years
+  }
+}
+
+// Decimal units, as estimates are usually done in powers of ten
+const scale = (value: number, units: string[], step: number): string => {
+  let index = 0
+  while (Math.abs(value) >= step && index < units.length - 1) {
+    value /= step
+    index += 1
+  }
+  const rounded = value >= 100 ? Math.round(value) : Math.round(value * 10) / 10
+  return `${rounded}${units[index]}`
+}
+
+/**
+ * A count such as 1.2M or 350K
+ */
+export const formatCount = (value: number): string =>
+  scale(value, ["", "K", "M", "B", "T"], 1000)
+
+/**
+ * A size such as 4.5 TB
+ */
+export const formatBytes = (bytes: number): string =>
+  scale(bytes, [" B", " KB", " MB", " GB", " TB", " PB", " EB"], 1000)
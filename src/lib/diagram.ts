@@ -0,0 +1,96 @@
+// src/lib/diagram.ts
+import mermaid from "mermaid"
+
+// Behind the diagram in exports, matching the dark theme it is drawn in
+const EXPORT_BACKGROUND = "#1e1e1e"
+// Pixels per SVG unit in PNG exports, so text stays sharp
+const PNG_SCALE = 2
+
+/**
+ * A rendered diagram and its natural size in pixels
+ */
+export interface RenderedDiagram {
+  svg: string
+  width: number
+  height: number
+}
+
+let initialized = false
+let renderCount = 0
+
+const initialize = () => {
+  if (initialized) return
+  mermaid.initialize({
+    startOnLoad: false,
+    // Labels are escaped and click handlers are off, since the source
+    // comes from a model
+    securityLevel: "strict",
+    theme: "dark",
+    // Plain SVG text instead of HTML labels, which would taint the
+    // canvas a PNG export is drawn on
+    htmlLabels: false
+  })
+  initialized = true
+}
+
+/**
+ * Render Mermaid source to an SVG sized to its content. Throws with the
+ * parser's message when the source isn't valid Mermaid.
+ */
+export async function renderDiagram(source: string): Promise<RenderedDiagram> {
+  initialize()
+  renderCount += 1
+  const { svg } = await mermaid.render(`diagram-${renderCount}`, source)
+
+  const root = new DOMParser().parseFromString(svg, "image/svg+xml").documentElement
+  const [, , width, height] = (root.getAttribute("viewBox") || "0 0 0 0")
+    .split(/[\s,]+/)
+    .map(Number)
+
+  // Mermaid sizes the SVG to its container; a fixed size lets it be zoomed
+  // and exported at its real dimensions
+  root.setAttribute("width", String(width))
+  root.setAttribute("height", String(height))
+  root.style.removeProperty("max-width")
+
+  return {
+    svg: new XMLSerializer().serializeToString(root),
+    width,
+    height
+  }
+}
+
+/**
+ * The SVG as a standalone file, with a background so the light text of
+ * the dark theme stays readable in other viewers
+ */
+export function toSvgFile(diagram: RenderedDiagram): string {
+  const root = new DOMParser().parseFromString(diagram.svg, "image/svg+xml").documentElement
+  root.style.setProperty("background-color", EXPORT_BACKGROUND)
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(root)}`
+}
+
+/**
+ * Draw the diagram onto a canvas and return it as a PNG data URL
+ */
+export function toPngDataUrl(diagram: RenderedDiagram): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.ceil(diagram.width * PNG_SCALE)
+      canvas.height = Math.ceil(diagram.height * PNG_SCALE)
+      const context = canvas.getContext("2d")
+      if (!context) {
+        reject(new Error("Canvas is not available"))
+        return
+      }
+      context.fillStyle = EXPORT_BACKGROUND
+      context.fillRect(0, 0, canvas.width, canvas.height)
+      context.drawImage(image, 0, 0, canvas.width, canvas.height)
+      resolve(canvas.toDataURL("image/png"))
+    }
+    image.onerror = () => reject(new Error("The diagram could not be drawn"))
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagram.svg)}`
+  })
+}
@@ -0,0 +1,116 @@
+// src/lib/reactPreview.ts
+import { transform } from "sucrase"
+import reactRuntime from "react-umd/react.development.js?raw"
+import reactDomRuntime from "react-dom-umd/react-dom.development.js?raw"
+
+// Tags messages from the preview frame apart from any others
+export const PREVIEW_MESSAGE_SOURCE = "react-preview"
+
+/**
+ * Message the preview frame posts to the renderer
+ */
+export interface PreviewMessage {
+  source: typeof PREVIEW_MESSAGE_SOURCE
+  type: "error" | "rendered"
+  message?: string
+}
+
+// Nothing may be loaded from outside the document: no requests, images,
+// fonts or frames, only the inline scripts and styles below
+const CONTENT_SECURITY_POLICY =
+  "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; img-src data: blob:; font-src data:"
+
+/**
+ * Compile a React component's source, with JSX and TypeScript, to a
+ * CommonJS module. Throws with the position of any syntax error.
+ */
+export function compileComponent(code: string): string {
+  return transform(code, {
+    transforms: ["jsx", "typescript", "imports"],
+    production: true
+  }).code
+}
+
+// Keep code inside an inline script from closing the tag early
+const escapeScript = (source: string): string =>
+  source.replace(/<\/script/gi, "<\\/script")
+
+/**
+ * Runs inside the frame: resolves imports to the bundled React, reports
+ * errors to the renderer and renders the module's component with the
+ * props the renderer sends
+ */
+const PREVIEW_BOOTSTRAP = `
+(function () {
+  var report = function (type, message) {
+    parent.postMessage({ source: "${PREVIEW_MESSAGE_SOURCE}", type: type, message: message }, "*");
+  };
+  window.addEventListener("error", function (event) { report("error", event.message); });
+  window.addEventListener("unhandledrejection", function (event) {
+    report("error", String(event.reason && event.reason.message || event.reason));
+  });
+
+  var modules = { "react": React, "react-dom": ReactDOM, "react-dom/client": ReactDOM };
+  window.__previewRequire = function (name) {
+    if (Object.prototype.hasOwnProperty.call(modules, name)) return modules[name];
+    if (/\\.(css|scss|sass|less)$/.test(name)) return {};
+    throw new Error('"' + name + '" is not available in the preview, only react and react-dom are');
+  };
+  window.__previewModule = { exports: {} };
+
+  var Boundary = function (props) { React.Component.call(this, props); this.state = { error: null }; };
+  Boundary.prototype = Object.create(React.Component.prototype);
+  Boundary.getDerivedStateFromError = function (error) { return { error: error }; };
+  Boundary.prototype.componentDidCatch = function (error) { report("error", error.message); };
+  Boundary.prototype.render = function () { return this.state.error ? null : this.props.children; };
+
+  var root = null;
+  window.__renderPreview = function (props) {
+    var exports = window.__previewModule.exports;
+    var Component = exports.default || Object.keys(exports).map(function (key) { return exports[key]; })
+      .filter(function (value) { return typeof value === "function"; })[0];
+    if (!Component) {
+      report("error", "The code doesn't export a component to render");
+      return;
+    }
+    root = root || ReactDOM.createRoot(document.getElementById("root"));
+    // A new key remounts the component, clearing a previous error
+    root.render(React.createElement(Boundary, { key: Date.now() }, React.createElement(Component, props)));
+    report("rendered");
+  };
+
+  window.addEventListener("message", function (event) {
+    if (event.data && event.data.source === "${PREVIEW_MESSAGE_SOURCE}" && event.data.type === "props") {
+      window.__renderPreview(event.data.props);
+    }
+  });
+})();
+`
+
+/**
+ * Document for a sandboxed preview frame that renders the compiled
+ * component with the given props. Props can be changed afterwards by
+ * posting { source, type: "props", props } to the frame.
+ */
+export function buildPreviewDocument(compiledCode: string, props: Record<string, unknown>): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8" />
+<meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}" />
+<style>body { margin: 8px; font-family: system-ui, sans-serif; background: #fff; color: #111; }</style>
+</head>
+<body>
+<div id="root"></div>
+<script>${escapeScript(reactRuntime)}</script>
+<script>${escapeScript(reactDomRuntime)}</script>
+<script>${escapeScript(PREVIEW_BOOTSTRAP)}</script>
+<script>
+(function (require, module, exports) {
+${escapeScript(compiledCode)}
+})(window.__previewRequire, window.__previewModule, window.__previewModule.exports);
+</script>
+<script>window.__renderPreview(${escapeScript(JSON.stringify(props))});</script>
+</body>
+</html>`
+}
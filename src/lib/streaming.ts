@@ -0,0 +1,108 @@
+// src/lib/streaming.ts
+
+/**
+ * Parse a JSON object that is still streaming by closing the open string
+ * and brackets. Returns null if the snapshot can't be completed yet.
+ */
+export function parsePartialJson(content: string): any {
+  const start = content.indexOf("{")
+  if (start === -1) return null
+
+  let text = content.slice(start)
+  const open: string[] = []
+  let inString = false
+  let escaped = false
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === "\\") escaped = true
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === "{" || char === "[") {
+      open.push(char === "{" ? "}" : "]")
+    } else if (char === "}" || char === "]") {
+      open.pop()
+    }
+  }
+
+  if (inString) {
+    // Drop a dangling escape before closing the string
+    text = (escaped ? text.slice(0, -1) : text) + '"'
+  }
+  text = text.trimEnd()
+
+  // Remove a key still waiting for its value, then any trailing comma
+  if (open[open.length - 1] === "}") {
+    const key = text.match(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?$/)
+    if (key && key.index !== undefined) {
+      text = text.slice(0, key.index + (key[1] === "{" ? 1 : 0))
+    }
+  }
+  text = text.replace(/,\s*$/, "")
+
+  try {
+    return JSON.parse(text + open.reverse().join(""))
+  } catch {
+    return null
+  }
+}
+
+// Solution fields previewed while streaming, by interview mode
+const PREVIEW_CODE_FIELDS = ["code", "query", "commands", "answer"]
+const PREVIEW_THOUGHT_FIELDS = ["thoughts", "components", "component_structure", "explanation"]
+
+/**
+ * Extract the code and thoughts seen so far from a partially streamed
+ * solution: either a structured JSON solution or markdown whose code block
+ * may still be open while tokens are arriving.
+ */
+export function parsePartialSolution(content: string): {
+  code: string | null
+  thoughts: string[]
+} {
+  if (/^\s*(?:```json\s*)?\{/.test(content)) {
+    const solution = parsePartialJson(content) || {}
+    // Hint ladders keep the answer hidden until each step is asked for
+    if ("nudge" in solution) {
+      return { code: null, thoughts: [] }
+    }
+    const codeField = PREVIEW_CODE_FIELDS.find((field) => typeof solution[field] === "string")
+    const thoughtsField = PREVIEW_THOUGHT_FIELDS.find((field) => Array.isArray(solution[field]))
+    return {
+      code: codeField ? solution[codeField] : null,
+      thoughts: thoughtsField
+        ? solution[thoughtsField].filter((thought: unknown) => typeof thought === "string" && thought)
+        : []
+    }
+  }
+
+  let code: string | null = null
+  const fenceStart = content.indexOf("```")
+  if (fenceStart !== -1) {
+    // Skip the language tag on the opening fence
+    const bodyStart = content.indexOf("\n", fenceStart)
+    if (bodyStart !== -1) {
+      const fenceEnd = content.indexOf("```", bodyStart)
+      code = content
+        .slice(bodyStart + 1, fenceEnd === -1 ? undefined : fenceEnd)
+        .trimEnd()
+    }
+  }
+
+  let thoughts: string[] = []
+  const thoughtsMatch = content.match(
+    /(?:Thoughts:|Key Insights:|Reasoning:|Approach:)([\s\S]*?)(?:Time complexity:|$)/i
+  )
+  if (thoughtsMatch && thoughtsMatch[1]) {
+    const bulletPoints = thoughtsMatch[1].match(/(?:^|\n)\s*(?:[-*•]|\d+\.)\s*(.*)/g)
+    if (bulletPoints) {
+      thoughts = bulletPoints
+        .map((point) => point.replace(/^\s*(?:[-*•]|\d+\.)\s*/, "").trim())
+        .filter(Boolean)
+    }
+  }
+
+  return { code, thoughts }
+}
@@ -1,20 +1,173 @@
-export type ModelProvider = 'openai' | 'claude';
+import { TestCase } from './solutions';
+
+export type ModelProvider = 'openai' | 'claude' | 'gemini' | 'local' | 'azure';
 
 export interface ModelProviderConfig {
   apiKey: string;
   model: string;
+  extractionModel?: string; // vision model for screenshots; empty uses model
+  baseUrl?: string;
+  apiVersion?: string; // Azure OpenAI only
+  deployments?: Record<string, string>; // Azure deployment name -> OpenAI model id
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  description: string;
+  supportsVision: boolean;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  pricing?: ModelPrice;
+}
+
+export interface ModelPrice {
+  input: number;  // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  session: UsageTotals;
+  today: UsageTotals;
+  month: UsageTotals;
+  daily: Array<UsageTotals & { date: string }>;
+  monthly: Array<UsageTotals & { month: string }>;
+  byModel: Array<UsageTotals & { provider: string; model: string; unpriced?: boolean }>;
+  prices: Record<string, ModelPrice>;
+  unpricedModels: string[]; // used, but still without a price
+}
+
+export interface BudgetLimit {
+  soft: number | null; // USD; warn once reached
+  hard: number | null; // USD; block requests once reached
+}
+
+export interface BudgetLimits {
+  session: BudgetLimit;
+  daily: BudgetLimit;
+  monthly: BudgetLimit;
+}
+
+export interface BudgetStatus {
+  level: 'ok' | 'soft' | 'hard';
+  period?: keyof BudgetLimits;
+  spent?: number;
+  limit?: number;
+  unpricedModels?: string[]; // the limit can't be enforced until these are priced
+}
+
+// Per interview mode overrides; empty values use the active provider, its
+// model and the default parameters
+export interface ModeProfile {
+  provider: ModelProvider | null;
+  extractionModel: string;
+  solutionModel: string;
+  temperature: number | null;
+  maxTokens: number | null;
+}
+
+// Empty strings and a null timeout use the defaults
+export interface NetworkSettings {
+  proxyUrl: string;
+  noProxy: string;
+  caBundlePath: string;
+  timeoutMs: number | null;
+}
+
+// One turn of the follow-up chat about the current solution
+export interface FollowUpMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * One test case run against the solution in the local sandbox
+ */
+export interface TestCaseResult {
+  input: string;
+  expectedOutput: string;
+  actualOutput: string;
+  passed: boolean;
+  category: TestCase['category'];
+  description: string;
+  // Why the run failed, e.g. a timeout or the error output of a crash
+  error?: string;
+  durationMs: number;
+}
+
+export interface TestRunSummary {
+  language: string;
+  results: TestCaseResult[];
+  // Set instead of results when the program didn't compile
+  compileError?: string;
+  networkIsolated: boolean;
+}
+
+/**
+ * Time complexity measured by timing the solution at growing input sizes
+ */
+export interface ComplexityBenchmark {
+  // Best-fitting growth class, e.g. "O(n log n)"; null if too few sizes could be measured
+  measured: string | null;
+  claimed: string | null;
+  // False when the measurement contradicts the claim, null when they can't be compared
+  matchesClaim: boolean | null;
+  // What the input size n counts, e.g. "length of nums"
+  sizeMeaning: string;
+  points: Array<{ size: number; durationMs: number }>;
+  note?: string;
+}
+
+/**
+ * A SQL answer run against the problem's sample data in SQLite
+ */
+export interface SqlQueryCheck {
+  columns: string[];
+  rows: Array<Array<string | number | null>>;
+  // More rows were returned than are kept
+  truncated: boolean;
+  // The tables or sample rows couldn't be created
+  setupError?: string;
+  error?: string;
+  expected: { columns: string[]; rows: string[][] } | null;
+  // Null when there is no expected output to compare with or the query failed
+  matchesExpected: boolean | null;
+  dialectWarnings: string[];
 }
 
 export interface Config {
   activeProvider: ModelProvider;
+  fallbackProviders: ModelProvider[];
+  compareProvider: ModelProvider | null;
   providers: {
     openai: ModelProviderConfig;
     claude: ModelProviderConfig;
+    gemini: ModelProviderConfig;
+    local: ModelProviderConfig;
+    azure: ModelProviderConfig;
   };
   language: string;
   interviewMode: string;
   opacity: number;
   launchMode: 'visible' | 'invisible';
+  modelPrices: Record<string, ModelPrice>;
+  budgets: BudgetLimits;
+  replay: {
+    mode: 'off' | 'record' | 'replay';
+    fixtureDir: string;
+  };
+  certificationSamples: number;
+  generateTestCases: boolean;
+  allowUnsandboxedCode: boolean;
+  modeProfiles: Record<string, Partial<ModeProfile>>;
+  network: NetworkSettings;
 }
 
 export interface ElectronAPI {
@@ -43,6 +196,33 @@ export interface ElectronAPI {
   onProcessingNoScreenshots: (callback: () => void) => () => void;
   onProblemExtracted: (callback: (data: any) => void) => () => void;
   onSolutionSuccess: (callback: (data: any) => void) => () => void;
+  onSolutionChunk: (callback: (content: string) => void) => () => void;
+  onDebugChunk: (callback: (content: string) => void) => () => void;
+  // Snapshot of the follow-up answer being streamed
+  onFollowUpChunk: (callback: (content: string) => void) => () => void;
+  getFollowUpThread: () => Promise<FollowUpMessage[]>;
+  recordHintsUsed: (
+    problem: string,
+    hintsUsed: number,
+    totalHints: number
+  ) => Promise<{ problemId: string; hintsUsed: number; totalHints: number }>;
+  setTestCases: (testCases: TestCase[]) => Promise<{ success: boolean; error?: string }>;
+  runTests: (code: string, language: string) => Promise<{ success: boolean; data?: TestRunSummary; error?: string }>;
+  benchmarkComplexity: (
+    code: string,
+    language: string,
+    claimedTimeComplexity: string | null
+  ) => Promise<{ success: boolean; data?: ComplexityBenchmark; error?: string }>;
+  runSqlQuery: (query: string) => Promise<{ success: boolean; data?: SqlQueryCheck; error?: string }>;
+  // The corrected solution arrives through the solution events
+  fixSolution: (code: string, summary: TestRunSummary) => Promise<{ success: boolean; error?: string }>;
+  // PNG data is a data URL; canceled is set when the save dialog is dismissed
+  exportDiagram: (
+    format: 'svg' | 'png',
+    data: string
+  ) => Promise<{ success: boolean; path?: string; canceled?: boolean; error?: string }>;
+  // Resolves with the whole thread once the answer is complete
+  askFollowUp: (question: string) => Promise<{ success: boolean; data?: FollowUpMessage[]; error?: string }>;
   onUnauthorized: (callback: () => void) => () => void;
   onDebugError: (callback: (error: string) => void) => () => void;
   openExternal: (url: string) => void;
@@ -63,16 +243,30 @@ export interface ElectronAPI {
   decrementCredits: () => Promise<void>;
   setInitialCredits: (credits: number) => Promise<void>;
   onCreditsUpdated: (callback: (credits: number) => void) => () => void;
-  onOutOfCredits: (callback: () => void) => () => void;
+  onOutOfCredits: (callback: (status: BudgetStatus) => void) => () => void;
+  onBudgetWarning: (callback: (status: BudgetStatus) => void) => () => void;
   openSettingsPortal: () => Promise<void>;
   getPlatform: () => string;
   openLink: (url: string) => Promise<{ success: boolean; error?: string }>;
   
   // Model selection and configuration methods
   getConfig: () => Promise<Config>;
-  updateConfig: (config: Partial<Config>) => Promise<Config>;
+  // Resolves with an error instead of saving when a text-only model would
+  // read screenshots
+  updateConfig: (config: Partial<Config>) => Promise<Config | { success: false; error: string }>;
   checkApiKey: () => Promise<boolean>;
-  validateApiKey: (apiKey: string, provider?: ModelProvider) => Promise<{ valid: boolean; error?: string }>;
+  validateApiKey: (
+    apiKey: string,
+    provider?: ModelProvider,
+    baseUrl?: string,
+    apiVersion?: string
+  ) => Promise<{ valid: boolean; error?: string }>;
+  // Uses the saved API key unless one is given
+  testConnection: (
+    provider: ModelProvider,
+    network: NetworkSettings,
+    options?: { apiKey?: string; baseUrl?: string }
+  ) => Promise<{ valid: boolean; error?: string }>;
   removeListener: (eventName: string, callback: (...args: any[]) => void) => void;
   onApiKeyInvalid: (callback: () => void) => () => void;
   onDeleteLastScreenshot: (callback: () => void) => () => void;
@@ -80,7 +274,18 @@ export interface ElectronAPI {
   
   // Provider and model methods
   getAvailableProviders: () => Promise<Record<string, { name: string, description: string }>>;
-  getAvailableModels: (provider: ModelProvider) => Promise<Array<{ id: string, name: string, description: string }>>;
+  getAvailableModels: (
+    provider: ModelProvider,
+    options?: { baseUrl?: string; apiKey?: string }
+  ) => Promise<ModelInfo[]>;
+  refreshModels: (
+    provider: ModelProvider,
+    options?: { apiKey?: string }
+  ) => Promise<{ success: boolean; error?: string; models: ModelInfo[] }>;
+  
+  // Usage ledger methods
+  getUsageSummary: () => Promise<UsageSummary>;
+  clearUsage: () => Promise<{ success: boolean }>;
   
   // Interview mode methods
   getInterviewModes: () => Promise<Array<{ id: string, name: string, description: string }>>;
@@ -9,6 +9,17 @@ export interface SolutionsResponse {
   [key: string]: Solution
 }
 
+/**
+ * Input and expected output for verifying a coding solution
+ */
+export interface TestCase {
+  input: string
+  expected_output: string
+  category: "example" | "normal" | "edge" | "large"
+  // What the case checks, e.g. "empty array"
+  description: string
+}
+
 export interface ProblemStatementData {
   problem_statement: string
   input_format: {
@@ -24,7 +35,72 @@ export interface ProblemStatementData {
     time: string
     space: string
   }
-  test_cases: any[]
+  // Generated after extraction in coding mode, and editable
+  test_cases?: TestCase[]
   validation_type: string
   difficulty: string
 }
+
+/**
+ * Solution from the provider configured for comparison, or the error it
+ * failed with
+ */
+export interface ComparisonSolution {
+  provider?: string
+  model?: string
+  code?: string
+  thoughts?: string[]
+  time_complexity?: string
+  space_complexity?: string
+  error?: string
+}
+
+/**
+ * One step of a practice hint ladder, e.g. "Nudge" or "Pseudocode"
+ */
+export interface HintStep {
+  level: string
+  content: string
+}
+
+/**
+ * How the sampled answers to a certification question voted
+ */
+export interface VoteSummary {
+  samples: number
+  // Share of samples that chose the winning answer, 0 to 1
+  confidence: number
+  // Every distinct answer, most votes first
+  distribution: Array<{ answer: string; count: number }>
+}
+
+/**
+ * Assumptions of a back-of-envelope capacity estimate
+ */
+export interface CapacityEstimate {
+  daily_active_users: number
+  reads_per_user_per_day: number
+  writes_per_user_per_day: number
+  write_size_bytes: number
+  read_size_bytes: number
+  // Peak traffic as a multiple of the daily average
+  peak_to_average: number
+  retention_years: number
+  replication_factor: number
+  notes: string
+}
+
+/**
+ * A system design answer, which has written sections and a diagram in
+ * place of code
+ */
+export interface SystemDesignAnswer {
+  architecture: string
+  // Mermaid source
+  diagram: string
+  components: string[]
+  data_model: string
+  scalability: string
+  tradeoffs: string
+  capacity_estimate: CapacityEstimate | null
+}
@@ -0,0 +1,76 @@
+// CodeRunner.test.ts - Sandboxing the programs that tests and benchmarks run
+import http from "node:http"
+import path from "node:path"
+import { AddressInfo } from "node:net"
+import { spawnSync } from "node:child_process"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { app } from "electron"
+import { configHelper } from "../electron/ConfigHelper"
+import { CodeRunner } from "../electron/CodeRunner"
+
+// The runner sandboxes with namespaces on Linux, where the kernel allows it
+const canUnshare = process.platform === "linux" &&
+  spawnSync("unshare", ["-rn", "true"], { timeout: 2000 }).status === 0
+
+// Reports whether the program could read the app's data or reach a server
+// on the same machine
+const probeProgram = (port: number) => `
+const fs = require("fs")
+const net = require("net")
+let data = "denied"
+try {
+  data = fs.readFileSync(${JSON.stringify(path.join(app.getPath("userData"), "config.json"))}, "utf8")
+} catch (err) {}
+const socket = net.connect(${port}, "127.0.0.1", () => {
+  console.log(data, "online")
+  socket.destroy()
+})
+socket.on("error", () => console.log(data, "offline"))
+`
+
+describe("CodeRunner", () => {
+  let server: http.Server
+  let port: number
+
+  beforeAll(async () => {
+    server = http.createServer((_req, res) => res.end())
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+    port = (server.address() as AddressInfo).port
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    // Also writes the config, with the provider keys, to the app's data
+    configHelper.updateConfig({ allowUnsandboxedCode: false })
+  })
+
+  it.runIf(canUnshare)("keeps programs off the network and away from the app's data", async () => {
+    const runner = new CodeRunner()
+
+    const run = await runner.runProgram("javascript", probeProgram(port), [""])
+
+    expect(run.networkIsolated).toBe(true)
+    expect(run.results[0].stderr).toBe("")
+    expect(run.results[0].stdout.trim()).toBe("denied offline")
+  })
+
+  it("refuses to run without a sandbox until the user allows it", async () => {
+    const runner = new CodeRunner()
+    vi.spyOn(runner as any, "getIsolation").mockReturnValue("none")
+
+    expect(runner.getRunBlocker()).toMatch(/can't be sandboxed/)
+    await expect(runner.runProgram("javascript", probeProgram(port), [""])).rejects.toThrow(
+      /Run Code Without a Sandbox/
+    )
+
+    configHelper.updateConfig({ allowUnsandboxedCode: true })
+    const run = await runner.runProgram("javascript", probeProgram(port), [""])
+
+    expect(runner.getRunBlocker()).toBeNull()
+    expect(run.networkIsolated).toBe(false)
+    expect(run.results[0].stdout).toContain("online")
+  })
+})
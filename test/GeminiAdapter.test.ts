@@ -0,0 +1,198 @@
+// GeminiAdapter.test.ts - Talks to a local stand-in for the Gemini REST API
+import http from "node:http"
+import { AddressInfo } from "node:net"
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest"
+import { z } from "zod"
+import { GeminiAdapter } from "../electron/models/GeminiAdapter"
+import { AuthenticationError } from "../electron/models/ModelErrors"
+import { ModelMessage } from "../electron/models/ModelInterface"
+import { requestStructured } from "../electron/models/StructuredOutput"
+
+const API_KEY = "test-gemini-key"
+const MODEL = "gemini-1.5-pro"
+
+const MESSAGES: ModelMessage[] = [
+  { role: "system", content: "Answer briefly." },
+  { role: "user", content: "What is the time complexity of binary search?" }
+]
+
+interface RecordedRequest {
+  method: string
+  url: string
+  apiKey: string | undefined
+  body: any
+}
+
+/**
+ * Response the server sends next: a JSON body, or server-sent events
+ * written one chunk at a time
+ */
+type Reply =
+  | { status?: number; json: any }
+  | { events: string[] }
+
+const usageMetadata = {
+  promptTokenCount: 12,
+  candidatesTokenCount: 7,
+  totalTokenCount: 19
+}
+
+const candidate = (text: string) => ({
+  candidates: [{ content: { role: "model", parts: [{ text }] } }]
+})
+
+describe("GeminiAdapter", () => {
+  let server: http.Server
+  let baseUrl: string
+  let requests: RecordedRequest[]
+  let reply: Reply
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = ""
+      req.on("data", chunk => {
+        body += chunk
+      })
+      req.on("end", async () => {
+        requests.push({
+          method: req.method || "",
+          url: req.url || "",
+          apiKey: req.headers["x-goog-api-key"] as string | undefined,
+          body: body ? JSON.parse(body) : undefined
+        })
+
+        if ("json" in reply) {
+          res.writeHead(reply.status || 200, { "Content-Type": "application/json" })
+          res.end(JSON.stringify(reply.json))
+          return
+        }
+        res.writeHead(200, { "Content-Type": "text/event-stream" })
+        for (const event of reply.events) {
+          res.write(event)
+          // Separate writes so the client sees events split across reads
+          await new Promise(resolve => setTimeout(resolve, 5))
+        }
+        res.end()
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1beta`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests = []
+  })
+
+  it("sends generateContent requests and reads the text and usage", async () => {
+    reply = {
+      json: {
+        candidates: [{
+          content: { role: "model", parts: [{ text: "O(log n)" }, { text: " comparisons." }] }
+        }],
+        usageMetadata
+      }
+    }
+    const adapter = new GeminiAdapter(API_KEY, MODEL, `${baseUrl}/`)
+
+    const response = await adapter.complete(MESSAGES, { maxTokens: 100, temperature: 0.1 })
+
+    expect(response).toEqual({
+      content: "O(log n) comparisons.",
+      usage: { promptTokens: 12, completionTokens: 7, totalTokens: 19 }
+    })
+    expect(requests).toEqual([{
+      method: "POST",
+      url: `/v1beta/models/${MODEL}:generateContent`,
+      apiKey: API_KEY,
+      body: {
+        contents: [{ role: "user", parts: [{ text: MESSAGES[1].content }] }],
+        systemInstruction: { parts: [{ text: "Answer briefly." }] },
+        generationConfig: { maxOutputTokens: 100, temperature: 0.1 }
+      }
+    }])
+  })
+
+  it("streams streamGenerateContent events as they arrive", async () => {
+    const events = [
+      `data: ${JSON.stringify(candidate("O(log"))}\n\n`,
+      // An event split across two writes
+      `data: ${JSON.stringify(candidate(" n) comp")).slice(0, 20)}`,
+      `${JSON.stringify(candidate(" n) comp")).slice(20)}\r\n\r\n`,
+      `data: ${JSON.stringify({ ...candidate("arisons."), usageMetadata })}\n\n`
+    ]
+    reply = { events }
+    const adapter = new GeminiAdapter(API_KEY, MODEL, baseUrl)
+    const tokens: Array<[string, string]> = []
+
+    const response = await adapter.completeStream(MESSAGES, (delta, snapshot) => {
+      tokens.push([delta, snapshot])
+    })
+
+    expect(tokens).toEqual([
+      ["O(log", "O(log"],
+      [" n) comp", "O(log n) comp"],
+      ["arisons.", "O(log n) comparisons."]
+    ])
+    expect(response).toEqual({
+      content: "O(log n) comparisons.",
+      usage: { promptTokens: 12, completionTokens: 7, totalTokens: 19 }
+    })
+    expect(requests[0].url).toBe(`/v1beta/models/${MODEL}:streamGenerateContent?alt=sse`)
+  })
+
+  it("keeps a final event that ends without a newline", async () => {
+    reply = {
+      events: [
+        `data: ${JSON.stringify(candidate("O(log n)"))}\n\n`,
+        `data: ${JSON.stringify({ ...candidate("."), usageMetadata })}`
+      ]
+    }
+    const adapter = new GeminiAdapter(API_KEY, MODEL, baseUrl)
+    const tokens: string[] = []
+
+    const response = await adapter.completeStream(MESSAGES, delta => {
+      tokens.push(delta)
+    })
+
+    expect(tokens).toEqual(["O(log n)", "."])
+    expect(response).toEqual({
+      content: "O(log n).",
+      usage: { promptTokens: 12, completionTokens: 7, totalTokens: 19 }
+    })
+  })
+
+  it("asks for JSON and parses structured responses", async () => {
+    const schema = z.object({
+      complexity: z.string(),
+      steps: z.array(z.string())
+    })
+    const answer = { complexity: "O(log n)", steps: ["Halve the range", "Compare the middle"] }
+    reply = { json: { ...candidate(`\`\`\`json\n${JSON.stringify(answer)}\n\`\`\``), usageMetadata } }
+    const adapter = new GeminiAdapter(API_KEY, MODEL, baseUrl)
+
+    const response = await requestStructured(adapter, MESSAGES, schema, { name: "answer" })
+
+    expect(response.data).toEqual(answer)
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 7, totalTokens: 19 })
+    expect(requests).toHaveLength(1)
+    expect(requests[0].body.generationConfig.responseMimeType).toBe("application/json")
+    // Gemini takes the schema in the prompt rather than as a parameter
+    expect(requests[0].body.generationConfig.responseSchema).toBeUndefined()
+    expect(requests[0].body.systemInstruction.parts[0].text).toContain('"complexity"')
+  })
+
+  it("reports a rejected key as an authentication error", async () => {
+    reply = {
+      status: 400,
+      json: { error: { code: 400, message: "API key not valid. Please pass a valid API key." } }
+    }
+    const adapter = new GeminiAdapter("bad-key", MODEL, baseUrl)
+
+    await expect(adapter.complete(MESSAGES)).rejects.toBeInstanceOf(AuthenticationError)
+    expect(requests[0].apiKey).toBe("bad-key")
+  })
+})
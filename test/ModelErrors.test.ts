@@ -0,0 +1,49 @@
+// ModelErrors.test.ts - Mapping provider errors onto the typed hierarchy
+import { describe, expect, it } from "vitest"
+import {
+  InvalidRequestError,
+  NetworkError,
+  QuotaExceededError,
+  RateLimitError,
+  toModelError
+} from "../electron/models/ModelErrors"
+
+describe("toModelError", () => {
+  it("treats Gemini's resource exhausted 429 as a retryable rate limit", () => {
+    const cause = Object.assign(new Error("Resource has been exhausted (e.g. check quota)."), {
+      status: 429,
+      headers: { "retry-after": "2" }
+    })
+
+    const error = toModelError(cause, "Gemini")
+
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error.retryable).toBe(true)
+    expect((error as RateLimitError).retryAfterMs).toBe(2000)
+    expect(error.cause).toBe(cause)
+  })
+
+  it("treats insufficient_quota as exhausted credits", () => {
+    const error = toModelError(
+      { status: 429, code: "insufficient_quota", message: "You exceeded your current quota" },
+      "OpenAI"
+    )
+
+    expect(error).toBeInstanceOf(QuotaExceededError)
+    expect(error.retryable).toBe(false)
+  })
+
+  it("retries request timeouts", () => {
+    const error = toModelError({ status: 408, message: "Request Timeout" }, "Local")
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error.retryable).toBe(true)
+  })
+
+  it("does not retry other bad requests", () => {
+    const error = toModelError({ status: 400, message: "Unknown model" }, "Local")
+
+    expect(error).toBeInstanceOf(InvalidRequestError)
+    expect(error.retryable).toBe(false)
+  })
+})
@@ -0,0 +1,160 @@
+// ProcessingHelper.replay.test.ts - Runs the screenshot pipeline offline
+// against recorded model traffic, from problem extraction through the
+// solution to debugging it from more screenshots
+import path from "node:path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures")
+
+// The events main.ts defines; importing it would start the app
+const PROCESSING_EVENTS = {
+  UNAUTHORIZED: "processing-unauthorized",
+  NO_SCREENSHOTS: "processing-no-screenshots",
+  OUT_OF_CREDITS: "out-of-credits",
+  BUDGET_WARNING: "budget-warning",
+  API_KEY_INVALID: "api-key-invalid",
+  INITIAL_START: "initial-start",
+  PROBLEM_EXTRACTED: "problem-extracted",
+  SOLUTION_CHUNK: "solution-chunk",
+  SOLUTION_SUCCESS: "solution-success",
+  INITIAL_SOLUTION_ERROR: "solution-error",
+  DEBUG_START: "debug-start",
+  DEBUG_CHUNK: "debug-chunk",
+  DEBUG_SUCCESS: "debug-success",
+  DEBUG_ERROR: "debug-error",
+  FOLLOW_UP_CHUNK: "follow-up-chunk"
+} as const
+
+/**
+ * App state and a window that records what is sent to the renderer
+ */
+function createApp(screenshots: string[], extraScreenshots: string[] = []) {
+  const sent: Array<{ channel: string; payload: any }> = []
+  const state = {
+    view: "queue" as "queue" | "solutions" | "debug",
+    problemInfo: null as any,
+    followUpThread: [] as any[],
+    hasDebugged: false
+  }
+
+  const mainWindow = {
+    webContents: {
+      send: (channel: string, payload?: any) => sent.push({ channel, payload }),
+      executeJavaScript: async () => true
+    }
+  }
+  const screenshotHelper = {
+    getScreenshotQueue: () => screenshots,
+    getExtraScreenshotQueue: () => extraScreenshots,
+    clearExtraScreenshotQueue: () => {
+      extraScreenshots.length = 0
+    },
+    getImagePreview: async () => ""
+  }
+
+  const deps = {
+    getScreenshotHelper: () => screenshotHelper,
+    getMainWindow: () => mainWindow,
+    getView: () => state.view,
+    setView: (view: typeof state.view) => {
+      state.view = view
+    },
+    getProblemInfo: () => state.problemInfo,
+    setProblemInfo: (info: any) => {
+      state.problemInfo = info
+    },
+    getScreenshotQueue: () => screenshots,
+    getExtraScreenshotQueue: () => extraScreenshots,
+    clearQueues: () => {},
+    takeScreenshot: async () => "",
+    getImagePreview: async () => "",
+    deleteScreenshot: async () => ({ success: true }),
+    setHasDebugged: (value: boolean) => {
+      state.hasDebugged = value
+    },
+    getHasDebugged: () => state.hasDebugged,
+    getFollowUpThread: () => state.followUpThread,
+    setFollowUpThread: (thread: any[]) => {
+      state.followUpThread = thread
+    },
+    PROCESSING_EVENTS
+  }
+
+  const payloadsOf = (channel: string) =>
+    sent.filter(message => message.channel === channel).map(message => message.payload)
+
+  return { deps, state, payloadsOf }
+}
+
+describe("ProcessingHelper in replay mode", () => {
+  beforeAll(() => {
+    vi.stubEnv("MODEL_REPLAY_MODE", "replay")
+    vi.stubEnv("MODEL_REPLAY_DIR", path.join(FIXTURES_DIR, "replay"))
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("extracts the problem and streams a solution from recorded responses", async () => {
+    const { ProcessingHelper } = await import("../electron/ProcessingHelper")
+    const { deps, state, payloadsOf } = createApp([path.join(FIXTURES_DIR, "screenshot.png")])
+    const helper = new ProcessingHelper(deps as any)
+
+    await helper.processScreenshots()
+
+    expect(payloadsOf(PROCESSING_EVENTS.INITIAL_SOLUTION_ERROR)).toEqual([])
+    expect(state.view).toBe("solutions")
+
+    const [problem] = payloadsOf(PROCESSING_EVENTS.PROBLEM_EXTRACTED)
+    expect(problem.problem_statement).toMatch(/^Given an array of integers nums and an integer target/)
+    expect(state.problemInfo).toEqual(problem)
+
+    // Replayed streams arrive in the chunks they were recorded in
+    const chunks = payloadsOf(PROCESSING_EVENTS.SOLUTION_CHUNK)
+    expect(chunks.length).toBeGreaterThan(1)
+
+    const [solution] = payloadsOf(PROCESSING_EVENTS.SOLUTION_SUCCESS)
+    expect(solution.code).toContain("def two_sum(nums, target):")
+    expect(solution.thoughts).toHaveLength(2)
+    expect(solution.time_complexity).toMatch(/^O\(n\)/)
+    expect(solution.space_complexity).toMatch(/^O\(n\)/)
+    expect(chunks[chunks.length - 1]).toContain(solution.code.split("\n")[0])
+
+    // The follow-up chat starts from the problem and the solution
+    expect(helper.getFollowUpMessages()).toEqual([])
+    expect(state.followUpThread.length).toBeGreaterThan(0)
+  })
+
+  it("debugs the solution from extra screenshots with the extraction adapter", async () => {
+    const { ProcessingHelper } = await import("../electron/ProcessingHelper")
+    const extraScreenshots: string[] = []
+    const { deps, state, payloadsOf } = createApp(
+      [path.join(FIXTURES_DIR, "screenshot.png")],
+      extraScreenshots
+    )
+    const helper = new ProcessingHelper(deps as any)
+
+    await helper.processScreenshots()
+    expect(state.view).toBe("solutions")
+
+    extraScreenshots.push(path.join(FIXTURES_DIR, "debug-screenshot.png"))
+    await helper.processScreenshots()
+
+    expect(payloadsOf(PROCESSING_EVENTS.DEBUG_ERROR)).toEqual([])
+    expect(payloadsOf(PROCESSING_EVENTS.DEBUG_START)).toHaveLength(1)
+    expect(state.hasDebugged).toBe(true)
+
+    const chunks = payloadsOf(PROCESSING_EVENTS.DEBUG_CHUNK)
+    expect(chunks.length).toBeGreaterThan(1)
+
+    const [debug] = payloadsOf(PROCESSING_EVENTS.DEBUG_SUCCESS)
+    expect(debug.debug_analysis).toBe(chunks[chunks.length - 1])
+    expect(debug.debug_analysis).toMatch(/^### Issues Identified/)
+    // The corrected code and the bullet points are pulled out of the analysis
+    expect(debug.code).toMatch(/^def two_sum\(nums, target\):/)
+    expect(debug.thoughts[0]).toMatch(/uses the same element twice/)
+    expect(debug.provider).toBe("OpenAI")
+    expect(debug.model).toBe("gpt-4o")
+  })
+})
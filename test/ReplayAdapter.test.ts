@@ -0,0 +1,154 @@
+// ReplayAdapter.test.ts - Recording fixtures and replaying them
+import crypto from "node:crypto"
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { ReplayAdapter } from "../electron/models/ReplayAdapter"
+import {
+  ModelAdapter,
+  ModelMessage,
+  ModelRequestOptions,
+  ModelResponse,
+  ModelStreamCallback
+} from "../electron/models/ModelInterface"
+
+const MESSAGES: ModelMessage[] = [
+  { role: "system", content: "Answer briefly." },
+  { role: "user", content: "What is 2 + 2?" }
+]
+
+const IMAGE_URL = "data:image/png;base64,iVBORw0KGgo="
+
+/**
+ * Adapter that numbers its answers, so each recording can be told apart
+ */
+function createCountingAdapter(): ModelAdapter & { calls: number } {
+  const respond = (): ModelResponse => {
+    adapter.calls++
+    return { content: `answer ${adapter.calls}`, usage: { promptTokens: 5, completionTokens: 2 } }
+  }
+  const stream = async (
+    _messages: ModelMessage[],
+    onToken: ModelStreamCallback
+  ): Promise<ModelResponse> => {
+    const response = respond()
+    const [first, second] = [response.content.slice(0, 3), response.content.slice(3)]
+    onToken(first, first)
+    onToken(second, response.content)
+    return response
+  }
+  const adapter = {
+    calls: 0,
+    provider: "Counting",
+    getAvailableModels: () => ["counting-1"],
+    listModels: async () => [{ id: "counting-1" }],
+    getCurrentModel: () => "counting-1",
+    setModel: () => {},
+    setApiKey: () => {},
+    getApiKey: () => "",
+    testApiKey: async () => ({ valid: true }),
+    complete: async () => respond(),
+    vision: async () => respond(),
+    completeStream: stream,
+    visionStream: stream,
+    supportsVision: () => true
+  }
+  return adapter
+}
+
+// The key the adapter files a request under
+const keyOf = (messages: ModelMessage[], options: ModelRequestOptions = {}) =>
+  crypto.createHash("sha256").update(JSON.stringify({
+    messages,
+    options: {
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+      responseSchema: options.responseSchema
+    }
+  })).digest("hex")
+
+const readFixture = (fixtureDir: string, name: string) =>
+  JSON.parse(fs.readFileSync(path.join(fixtureDir, name), "utf8"))
+
+describe("ReplayAdapter", () => {
+  let fixtureDir: string
+
+  beforeEach(() => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), "interview-coder-fixtures-"))
+  })
+
+  afterEach(() => {
+    fs.rmSync(fixtureDir, { recursive: true, force: true })
+  })
+
+  it("names fixtures by request and numbers repeats by occurrence", async () => {
+    const adapter = createCountingAdapter()
+    const recorder = new ReplayAdapter({ mode: "record", fixtureDir, adapter })
+    const options = { maxTokens: 100, temperature: 0 }
+    const key = keyOf(MESSAGES, options)
+
+    await recorder.complete(MESSAGES, options)
+    await recorder.complete(MESSAGES, options)
+    // The signal doesn't change the response, so it isn't part of the key
+    await recorder.complete(MESSAGES, { ...options, signal: new AbortController().signal })
+    // Different options are a different request
+    await recorder.complete(MESSAGES, { ...options, temperature: 1 })
+
+    expect(fs.readdirSync(fixtureDir).sort()).toEqual([
+      `${key}-2.json`,
+      `${key}-3.json`,
+      `${key}.json`,
+      `${keyOf(MESSAGES, { ...options, temperature: 1 })}.json`
+    ].sort())
+    expect(readFixture(fixtureDir, `${key}.json`)).toMatchObject({
+      key,
+      request: { messages: MESSAGES, options },
+      response: { content: "answer 1" }
+    })
+    expect(readFixture(fixtureDir, `${key}-2.json`).response.content).toBe("answer 2")
+    expect(readFixture(fixtureDir, `${key}-3.json`).response.content).toBe("answer 3")
+  })
+
+  it("keeps stream chunks and stores images by hash", async () => {
+    const adapter = createCountingAdapter()
+    const recorder = new ReplayAdapter({ mode: "record", fixtureDir, adapter })
+    const messages: ModelMessage[] = [{
+      role: "user",
+      content: [
+        { type: "text", text: "What does this show?" },
+        { type: "image_url", image_url: { url: IMAGE_URL } }
+      ]
+    }]
+    const tokens: string[] = []
+
+    await recorder.visionStream(messages, delta => tokens.push(delta))
+
+    // The key covers the image itself, the fixture only its hash
+    const fixture = readFixture(fixtureDir, `${keyOf(messages)}.json`)
+    expect(tokens).toEqual(["ans", "wer 1"])
+    expect(fixture.chunks).toEqual(["ans", "wer 1"])
+    expect(fixture.request.messages[0].content[1].image_url.url).toBe(
+      `sha256:${crypto.createHash("sha256").update(IMAGE_URL).digest("hex")}`
+    )
+  })
+
+  it("replays recordings in order, reusing the first for extra repeats", async () => {
+    const recorder = new ReplayAdapter({ mode: "record", fixtureDir, adapter: createCountingAdapter() })
+    await recorder.completeStream(MESSAGES, () => {})
+    await recorder.completeStream(MESSAGES, () => {})
+
+    const player = new ReplayAdapter({ mode: "replay", fixtureDir, model: "recorded" })
+    const snapshots: string[] = []
+    const first = await player.completeStream(MESSAGES, (_delta, snapshot) => snapshots.push(snapshot))
+    const second = await player.complete(MESSAGES)
+    const third = await player.complete(MESSAGES)
+
+    expect(snapshots).toEqual(["ans", "answer 1"])
+    expect([first.content, second.content, third.content]).toEqual(["answer 1", "answer 2", "answer 1"])
+    expect(player.getCurrentModel()).toBe("recorded")
+    await expect(player.complete([{ role: "user", content: "Unrecorded" }])).rejects.toThrow(
+      /No recorded fixture/
+    )
+  })
+})
@@ -0,0 +1,51 @@
+// UsageHelper.test.ts - Costing usage and enforcing spending limits
+import { beforeEach, describe, expect, it } from "vitest"
+import { configHelper } from "../electron/ConfigHelper"
+import { usageHelper } from "../electron/UsageHelper"
+
+const NO_LIMITS = {
+  session: { soft: null, hard: null },
+  daily: { soft: null, hard: null },
+  monthly: { soft: null, hard: null }
+}
+
+const usage = { promptTokens: 1_000_000, completionTokens: 0 }
+
+describe("UsageHelper", () => {
+  beforeEach(() => {
+    usageHelper.clear()
+    configHelper.updateConfig({ modelPrices: {}, budgets: NO_LIMITS })
+  })
+
+  it("records models without a price as unpriced rather than free", () => {
+    const entry = usageHelper.record({ provider: "OpenAI", model: "gpt-new-preview", mode: "coding", usage })
+
+    expect(entry).toMatchObject({ cost: 0, unpriced: true })
+    const summary = usageHelper.getSummary()
+    expect(summary.unpricedModels).toEqual(["gpt-new-preview"])
+    expect(summary.byModel[0].unpriced).toBe(true)
+  })
+
+  it("blocks under a hard limit and warns under a soft one until the model is priced", () => {
+    usageHelper.record({ provider: "OpenAI", model: "gpt-new-preview", mode: "coding", usage })
+
+    configHelper.updateConfig({ budgets: { ...NO_LIMITS, daily: { soft: 1, hard: null } } })
+    expect(usageHelper.checkBudget()).toEqual({ level: "soft", unpricedModels: ["gpt-new-preview"] })
+
+    configHelper.updateConfig({ budgets: { ...NO_LIMITS, daily: { soft: null, hard: 5 } } })
+    expect(usageHelper.checkBudget()).toEqual({ level: "hard", unpricedModels: ["gpt-new-preview"] })
+
+    // Once priced, earlier usage is costed at the new price
+    configHelper.updateConfig({ modelPrices: { "gpt-new-preview": { input: 2, output: 8 } } })
+    expect(usageHelper.getSummary().today.cost).toBe(2)
+    expect(usageHelper.checkBudget()).toEqual({ level: "ok" })
+  })
+
+  it("costs local models nothing unless they are priced", () => {
+    const entry = usageHelper.record({ provider: "Local", model: "llama3.2-vision", mode: "coding", usage })
+
+    expect(entry.cost).toBe(0)
+    expect(entry.unpriced).toBeUndefined()
+    expect(usageHelper.getSummary().unpricedModels).toEqual([])
+  })
+})
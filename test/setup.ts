@@ -0,0 +1,21 @@
+// setup.ts - Stands in for the Electron main process modules, which only
+// load inside Electron
+import fs from "node:fs"
+import { afterAll, vi } from "vitest"
+import { app } from "electron"
+
+// Config, usage and other stores are written to a throwaway user data dir
+vi.mock("electron", async () => {
+  const fs = await import("node:fs")
+  const os = await import("node:os")
+  const path = await import("node:path")
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), "interview-coder-test-"))
+  return {
+    app: { getPath: () => userData },
+    BrowserWindow: class {}
+  }
+})
+
+afterAll(() => {
+  fs.rmSync(app.getPath("userData"), { recursive: true, force: true })
+})
@@ -52,7 +52,11 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      "@": path.resolve(__dirname, "./src")
+      "@": path.resolve(__dirname, "./src"),
+      // Standalone React builds inlined into the sandboxed React preview;
+      // the packages' export maps don't expose these files
+      "react-umd": path.resolve(__dirname, "./node_modules/react/umd"),
+      "react-dom-umd": path.resolve(__dirname, "./node_modules/react-dom/umd")
     }
   }
 })
@@ -0,0 +1,11 @@
+// vitest.config.ts
+// Kept apart from vite.config.ts so tests don't start the Electron build
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    setupFiles: ["test/setup.ts"],
+    environment: "node"
+  }
+})